@@ -0,0 +1,515 @@
+/**
+ * Chain Runner Extension
+ *
+ * Runs the anthropic-harness chains (*.chain.md) natively:
+ *
+ *   /chain design-iteration-loop Design a landing page for a Dutch art museum
+ *   /chain build-with-qa-loop --rounds 2 Build a DAW in the browser
+ *
+ * A chain file has frontmatter (name, description and optionally rounds,
+ * threshold, loop and report) and one `## agent` section per step. A section
+ * starts with `reads:` / `output:` lines followed by the step's prompt, in
+ * which {task}, {chain_dir} and {previous} (the previous step's reply) are
+ * filled in.
+ *
+ * Agents are looked up in anthropic-harness/agents, then personal/agents and
+ * ~/.pi/agent/agents, and the whole chain is checked before anything runs.
+ * Each step runs as `pi -p --no-session` with the agent's prompt, tools and
+ * model. A run lives in .pi/chain-runs/<chain>-<time>/ under the working
+ * directory: the steps' output files, plus steps/ with every step's reply and a
+ * copy of its output per round.
+ *
+ * With more than one round, the steps from `loop` (default: the first step)
+ * repeat until the rounds run out or every score in the round's
+ * evaluation-report.md (`report`) reaches `threshold`. /chain stop aborts.
+ *
+ * Other extensions can follow a run on pi.events: "chain:step_start" and
+ * "chain:step_end" carry a ChainStepEvent, and text a step_start listener
+ * pushes onto `context` synchronously is appended to the step's prompt.
+ */
+
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getAgentDir, parseFrontmatter } from "@mariozechner/pi-coding-agent";
+import { existsSync, readdirSync, readFileSync, realpathSync, statSync } from "fs";
+import { copyFile, mkdir, readFile, stat, writeFile } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+
+interface ChainStep {
+	agent: string;
+	// Files in the chain directory the step should read first
+	reads: string[];
+	// File in the chain directory the step writes; its reply is saved there if the step leaves it untouched
+	output?: string;
+	prompt: string;
+}
+
+interface Chain {
+	name: string;
+	description: string;
+	path: string;
+	steps: ChainStep[];
+	rounds: number;
+	// Stop early once every score in the report reaches this
+	threshold?: number;
+	// Index of the first step that repeats each round
+	loopFrom: number;
+	report: string;
+}
+
+interface AgentDefinition {
+	name: string;
+	path: string;
+	tools?: string;
+	model?: string;
+	thinking?: string;
+	systemPrompt: string;
+}
+
+// Payload of the "chain:step_start" and "chain:step_end" events
+export interface ChainStepEvent {
+	chain: string;
+	dir: string;
+	round: number;
+	agent: string;
+	// Absolute path of the step's output file, if it has one
+	output?: string;
+	// Extra prompt sections; only read after step_start
+	context: string[];
+}
+
+interface ChainRun {
+	chain: Chain;
+	dir: string;
+	round: number;
+	step: number;
+	controller: AbortController;
+}
+
+// Resolve the symlink pi may load us through so the harness is found next to the real file
+const REPO_DIR = resolve(dirname(realpathSync(fileURLToPath(import.meta.url))), "..");
+const CHAINS_DIR = join(REPO_DIR, "anthropic-harness", "chains");
+const AGENT_DIRS = [
+	join(REPO_DIR, "anthropic-harness", "agents"),
+	join(REPO_DIR, "personal", "agents"),
+	join(getAgentDir(), "agents"),
+];
+const RUNS_DIR = join(".pi", "chain-runs");
+const DEFAULT_REPORT = "evaluation-report.md";
+
+/**
+ * "plan.md, build-report.md" or `["plan.md"]` as a list of file names
+ */
+function parseList(value: string | undefined): string[] {
+	if (!value) return [];
+	return value
+		.replace(/^\s*\[|\]\s*$/g, "")
+		.split(",")
+		.map((item) => item.trim().replace(/^["']|["']$/g, ""))
+		.filter(Boolean);
+}
+
+/**
+ * Parse a *.chain.md file. Throws when the file can't be read.
+ */
+function parseChain(path: string): Chain {
+	const { frontmatter, body } = parseFrontmatter<Record<string, string>>(readFileSync(path, "utf8"));
+	const steps: ChainStep[] = [];
+
+	for (const section of body.split(/^## +/m).slice(1)) {
+		const lines = section.split("\n");
+		const step: ChainStep = { agent: lines.shift()!.trim(), reads: [], prompt: "" };
+		while (lines.length > 0) {
+			const match = lines[0].match(/^(reads|output):\s*(.*)$/);
+			if (!match) break;
+			if (match[1] === "reads") step.reads = parseList(match[2]);
+			else step.output = match[2].trim() || undefined;
+			lines.shift();
+		}
+		step.prompt = lines.join("\n").trim();
+		steps.push(step);
+	}
+
+	const rounds = Number(frontmatter.rounds);
+	const threshold = Number(frontmatter.threshold);
+	const loopFrom = frontmatter.loop ? steps.findIndex((step) => step.agent === frontmatter.loop) : 0;
+	return {
+		name: frontmatter.name || basename(path, ".chain.md"),
+		description: frontmatter.description || "",
+		path,
+		steps,
+		rounds: Number.isInteger(rounds) && rounds > 0 ? rounds : 1,
+		threshold: threshold >= 1 && threshold <= 10 ? threshold : undefined,
+		loopFrom,
+		report: frontmatter.report || DEFAULT_REPORT,
+	};
+}
+
+/**
+ * Agents by name; earlier directories win over later ones
+ */
+function loadAgents(): Map<string, AgentDefinition> {
+	const agents = new Map<string, AgentDefinition>();
+	for (const dir of AGENT_DIRS) {
+		let files: string[];
+		try {
+			files = readdirSync(dir).filter((file) => file.endsWith(".md") && !file.endsWith(".chain.md"));
+		} catch {
+			continue;
+		}
+		for (const file of files) {
+			const path = join(dir, file);
+			try {
+				const { frontmatter, body } = parseFrontmatter<Record<string, string>>(readFileSync(path, "utf8"));
+				if (!frontmatter.name || agents.has(frontmatter.name)) continue;
+				agents.set(frontmatter.name, {
+					name: frontmatter.name,
+					path,
+					tools: parseList(frontmatter.tools).join(",") || undefined,
+					model: frontmatter.model,
+					thinking: frontmatter.thinking,
+					systemPrompt: body.trim(),
+				});
+			} catch {
+				// Dangling symlink or unreadable file
+			}
+		}
+	}
+	return agents;
+}
+
+/**
+ * Problems that would stop the chain from running, one per line
+ */
+function validateChain(chain: Chain, agents: Map<string, AgentDefinition>): string[] {
+	const problems: string[] = [];
+	if (chain.steps.length === 0) problems.push("No `## agent` steps");
+	if (chain.loopFrom < 0) problems.push("`loop` doesn't name a step of the chain");
+
+	const outputs = new Set(chain.steps.flatMap((step) => (step.output ? [step.output] : [])));
+	chain.steps.forEach((step, index) => {
+		const label = `Step ${index + 1} (${step.agent})`;
+		if (!agents.has(step.agent)) {
+			problems.push(`${label}: agent not found in ${AGENT_DIRS.join(", ")}`);
+		}
+		for (const file of step.reads) {
+			if (!outputs.has(file)) problems.push(`${label}: reads ${file}, which no step writes`);
+		}
+		if (!step.prompt) problems.push(`${label}: empty prompt`);
+	});
+	return problems;
+}
+
+export interface CriterionScore {
+	criterion: string;
+	score: number;
+	// HIGH 3, MEDIUM 2, LOW 1; 1 when the report gives none
+	weight: number;
+}
+
+export interface CriterionVerdict {
+	criterion: string;
+	pass: boolean;
+}
+
+// What an evaluator report says about one round
+export interface ReportScores {
+	scores: CriterionScore[];
+	verdicts: CriterionVerdict[];
+	verdict?: "PASS" | "FAIL";
+	// Weighted average of the scores, 1-10
+	total?: number;
+}
+
+const WEIGHTS: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Scores, verdicts and the overall verdict from a design-evaluator or
+ * adversarial-qa report. Scores come from table rows
+ * ("| Design quality | 7/10 | HIGH |") or lines ("- **Craft** (LOW weight): 6/10")
+ */
+export function parseReport(text: string): ReportScores {
+	const scores: CriterionScore[] = [];
+	const verdicts: CriterionVerdict[] = [];
+	let verdict: ReportScores["verdict"];
+
+	for (const line of text.split("\n")) {
+		const overall = line.match(/\b(?:overall|verdict)\**\s*:\s*\**\s*(PASS|FAIL)\b(?!\s*\/)/i);
+		if (overall) {
+			verdict = overall[1].toUpperCase() as "PASS" | "FAIL";
+			continue;
+		}
+
+		// "| Design quality | 7/10 | HIGH |"
+		if (line.trim().startsWith("|")) {
+			const cells = line.split("|").map((cell) => cell.replace(/\*/g, "").trim()).filter(Boolean);
+			const scoreCell = cells.findIndex((cell) => /^\d{1,2}(\.\d+)?\s*\/\s*10$/.test(cell));
+			if (scoreCell > 0) {
+				const weight = cells.find((cell) => WEIGHTS[cell.toLowerCase()] !== undefined);
+				scores.push({
+					criterion: cells[0],
+					score: parseFloat(cells[scoreCell]),
+					weight: weight ? WEIGHTS[weight.toLowerCase()] : 1,
+				});
+			}
+			continue;
+		}
+
+		// "- **Craft** (LOW weight): 6/10"
+		const scored = line.match(/^\s*(?:[-*]|\d+\.)?\s*\*\*(.+?)\*\*\s*(?:\(([^)]*)\))?\s*:\s*\**\s*(\d{1,2}(?:\.\d+)?)\s*\/\s*10\b/);
+		if (scored) {
+			const weight = scored[2]?.match(/\b(high|medium|low)\b/i)?.[1].toLowerCase();
+			scores.push({ criterion: scored[1].trim(), score: parseFloat(scored[3]), weight: weight ? WEIGHTS[weight] : 1 });
+			continue;
+		}
+
+		// "- **Search works**: PASS"
+		const judged = line.match(/^\s*(?:[-*]|\d+\.)\s*\*\*(.+?)\*\*\s*:?\s*\**\s*(PASS|FAIL)\b(?!\s*\/)/);
+		if (judged) verdicts.push({ criterion: judged[1].trim(), pass: judged[2] === "PASS" });
+	}
+
+	if (!verdict && verdicts.length > 0) verdict = verdicts.every((item) => item.pass) ? "PASS" : "FAIL";
+	const weightSum = scores.reduce((sum, item) => sum + item.weight, 0);
+	const total = weightSum > 0 ? Math.round((scores.reduce((sum, item) => sum + item.score * item.weight, 0) / weightSum) * 10) / 10 : undefined;
+	return { scores, verdicts, verdict, total };
+}
+
+function fillPlaceholders(template: string, values: Record<string, string>): string {
+	return template.replace(/\{(chain_dir|task|previous)\}/g, (_match, name: string) => values[name]);
+}
+
+/**
+ * How to start pi again: the running script under the same runtime, or `pi` on PATH
+ */
+function getPiInvocation(args: string[]): { command: string; args: string[] } {
+	const script = process.argv[1];
+	if (script && existsSync(script)) return { command: process.execPath, args: [script, ...args] };
+	if (!/^(node|bun)(\.exe)?$/i.test(basename(process.execPath))) return { command: process.execPath, args };
+	return { command: "pi", args };
+}
+
+function findChain(cwd: string, nameOrPath: string): string {
+	if (nameOrPath.endsWith(".md") || nameOrPath.includes("/")) return resolve(cwd, nameOrPath);
+	return join(CHAINS_DIR, `${nameOrPath}.chain.md`);
+}
+
+function listChains(): Chain[] {
+	try {
+		return readdirSync(CHAINS_DIR)
+			.filter((file) => file.endsWith(".chain.md"))
+			.sort()
+			.map((file) => parseChain(join(CHAINS_DIR, file)));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Split "/chain <name> [--rounds N] [--threshold N] <task>"
+ */
+function parseChainArgs(args: string): { chain: string; task: string; rounds?: number; threshold?: number } {
+	const words = args.trim().split(/\s+/);
+	const chain = words.shift() ?? "";
+	const options: { rounds?: number; threshold?: number } = {};
+	while (words[0] === "--rounds" || words[0] === "--threshold") {
+		const flag = words.shift()!;
+		const value = Number(words.shift());
+		if (flag === "--rounds" && !(Number.isInteger(value) && value > 0)) {
+			throw new Error("--rounds needs a positive whole number");
+		}
+		if (flag === "--threshold" && !(value >= 1 && value <= 10)) {
+			throw new Error("--threshold needs a score between 1 and 10");
+		}
+		options[flag === "--rounds" ? "rounds" : "threshold"] = value;
+	}
+	return { chain, task: words.join(" "), ...options };
+}
+
+export default function (pi: ExtensionAPI) {
+	let running: ChainRun | undefined;
+
+	const updateStatus = (ctx: ExtensionContext) => {
+		if (!running) {
+			ctx.ui.setStatus("chain", undefined);
+			return;
+		}
+		const { chain, round, step } = running;
+		const theme = ctx.ui.theme;
+		const rounds = chain.rounds > 1 ? ` round ${round}/${chain.rounds} ·` : "";
+		const progress = `${rounds} ${step + 1}/${chain.steps.length} ${chain.steps[step].agent}`;
+		ctx.ui.setStatus("chain", theme.fg("accent", `⛓ ${chain.name}`) + theme.fg("dim", progress));
+	};
+
+	// Run one step as a separate pi process and return its final reply
+	const runAgent = async (agent: AgentDefinition, prompt: string, cwd: string, signal: AbortSignal) => {
+		const args = ["-p", "--no-session"];
+		if (agent.model) args.push("--model", agent.model);
+		if (agent.thinking) args.push("--thinking", agent.thinking);
+		if (agent.tools) args.push("--tools", agent.tools);
+		if (agent.systemPrompt) args.push("--append-system-prompt", agent.systemPrompt);
+		args.push(`Task: ${prompt}`);
+
+		const invocation = getPiInvocation(args);
+		const result = await pi.exec(invocation.command, invocation.args, { cwd, signal });
+		if (signal.aborted || result.killed) throw new Error("Chain stopped");
+		if (result.code !== 0) {
+			const detail = result.stderr.trim().split("\n").pop() || `exit code ${result.code}`;
+			throw new Error(`${agent.name} failed: ${detail}`);
+		}
+		return result.stdout.trim();
+	};
+
+	const runChain = async (ctx: ExtensionContext, run: ChainRun, task: string, agents: Map<string, AgentDefinition>) => {
+		const { chain, dir, controller } = run;
+		const stepsDir = join(dir, "steps");
+		await mkdir(stepsDir, { recursive: true });
+		await writeFile(join(dir, "task.md"), `${task}\n`);
+
+		let previous = "";
+		let stopReason = `${chain.rounds} round${chain.rounds === 1 ? "" : "s"} done`;
+		for (let round = 1; round <= chain.rounds; round++) {
+			const roundStartedAt = Date.now();
+			for (let index = round === 1 ? 0 : chain.loopFrom; index < chain.steps.length; index++) {
+				const step = chain.steps[index];
+				run.round = round;
+				run.step = index;
+				updateStatus(ctx);
+
+				const event: ChainStepEvent = {
+					chain: chain.name,
+					dir,
+					round,
+					agent: step.agent,
+					output: step.output ? join(dir, step.output) : undefined,
+					context: [],
+				};
+				pi.events.emit("chain:step_start", event);
+
+				const readable = step.reads.map((file) => join(dir, file)).filter((path) => existsSync(path));
+				let prompt = fillPlaceholders(step.prompt, { chain_dir: dir, task, previous }).trim();
+				if (readable.length > 0) prompt = `Read first: ${readable.join(", ")}\n\n${prompt}`;
+				if (event.context.length > 0) prompt = `${prompt}\n\n${event.context.join("\n\n")}`;
+
+				const stepStartedAt = Date.now();
+				previous = await runAgent(agents.get(step.agent)!, prompt, ctx.cwd, controller.signal);
+				const prefix = `r${round}-${String(index + 1).padStart(2, "0")}-${step.agent}`;
+				await writeFile(join(stepsDir, `${prefix}.md`), `${previous}\n`);
+				if (step.output) {
+					const outputPath = join(dir, step.output);
+					// A file left over from an earlier round isn't this step's output; use the reply
+					const written = await stat(outputPath).then((info) => info.mtimeMs >= stepStartedAt, () => false);
+					if (!written) await writeFile(outputPath, `${previous}\n`);
+					await copyFile(outputPath, join(stepsDir, `${prefix}-${step.output}`));
+				}
+				pi.events.emit("chain:step_end", { ...event, context: [] });
+			}
+
+			// Only a report written this round counts towards stopping
+			if (chain.threshold !== undefined && round < chain.rounds) {
+				const reportPath = join(dir, chain.report);
+				const written = await stat(reportPath).then((info) => info.mtimeMs >= roundStartedAt, () => false);
+				const { scores } = written ? parseReport(await readFile(reportPath, "utf8")) : { scores: [] };
+				if (scores.length > 0 && scores.every((item) => item.score >= chain.threshold!)) {
+					stopReason = `all scores ≥ ${chain.threshold} after round ${round}`;
+					break;
+				}
+			}
+		}
+		return stopReason;
+	};
+
+	const startChain = async (args: string, ctx: ExtensionContext) => {
+		if (running) {
+			ctx.ui.notify(`Chain ${running.chain.name} is still running (/chain stop to abort)`, "warning");
+			return;
+		}
+
+		const parsed = parseChainArgs(args);
+		if (!parsed.task) {
+			ctx.ui.notify("Usage: /chain <name> [--rounds N] [--threshold N] <task>", "error");
+			return;
+		}
+		const path = findChain(ctx.cwd, parsed.chain);
+		if (!existsSync(path) || !statSync(path).isFile()) {
+			const available = listChains().map((chain) => chain.name).join(", ") || "none";
+			ctx.ui.notify(`Chain "${parsed.chain}" not found (available: ${available})`, "error");
+			return;
+		}
+
+		const chain = parseChain(path);
+		chain.rounds = parsed.rounds ?? chain.rounds;
+		chain.threshold = parsed.threshold ?? chain.threshold;
+		const agents = loadAgents();
+		const problems = validateChain(chain, agents);
+		if (problems.length > 0) {
+			ctx.ui.notify(`Chain ${chain.name} is invalid:\n${problems.join("\n")}`, "error");
+			return;
+		}
+
+		const stamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+		const dir = resolve(ctx.cwd, RUNS_DIR, `${chain.name}-${stamp}`);
+		const run: ChainRun = { chain, dir, round: 1, step: 0, controller: new AbortController() };
+		running = run;
+		ctx.ui.notify(`Running ${chain.name} (${chain.steps.map((step) => step.agent).join(" → ")}) in ${dir}`, "info");
+
+		// Steps can take a long time, so the command returns and the run reports back when it ends
+		runChain(ctx, run, parsed.task, agents)
+			.then((reason) => {
+				ctx.ui.notify(`Chain ${chain.name} finished: ${reason}`, "info");
+				pi.sendMessage({
+					customType: "chain-result",
+					content: `Chain ${chain.name} finished (${reason}). Artifacts are in ${dir}.`,
+					display: true,
+				});
+			})
+			.catch((error) => {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Chain ${chain.name} round ${run.round} step ${run.step + 1}: ${errorMessage}`, "error");
+			})
+			.finally(() => {
+				running = undefined;
+				updateStatus(ctx);
+			});
+	};
+
+	pi.registerCommand("chain", {
+		description: "Run a harness chain: /chain <name> [--rounds N] [--threshold N] <task> (/chain stop aborts)",
+		getArgumentCompletions: (prefix) => {
+			if (/\s/.test(prefix.trimStart())) return null;
+			const names = [...listChains().map((chain) => chain.name), "stop"];
+			const matches = names.filter((name) => name.startsWith(prefix.trim()));
+			return matches.length > 0 ? matches.map((name) => ({ value: `${name} `, label: name })) : null;
+		},
+		handler: async (args, ctx) => {
+			const trimmed = args?.trim() ?? "";
+			if (!trimmed) {
+				const chains = listChains();
+				const lines = chains.map((chain) => {
+					const steps = chain.steps.map((step) => step.agent).join(" → ");
+					const rounds = chain.rounds > 1 ? ` (${chain.rounds} rounds)` : "";
+					return `${chain.name}: ${steps}${rounds}`;
+				});
+				ctx.ui.notify(lines.length > 0 ? lines.join("\n") : `No chains in ${CHAINS_DIR}`, "info");
+				return;
+			}
+			if (trimmed === "stop") {
+				if (!running) {
+					ctx.ui.notify("No chain is running", "info");
+					return;
+				}
+				running.controller.abort();
+				return;
+			}
+			try {
+				await startChain(trimmed, ctx);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Error: ${errorMessage}`, "error");
+			}
+		},
+	});
+
+	pi.on("session_shutdown", async () => {
+		running?.controller.abort();
+	});
+}
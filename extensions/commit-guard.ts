@@ -0,0 +1,481 @@
+/**
+ * Commit Guard Extension
+ *
+ * Stops secrets and PII from being committed or pushed by the agent. Every
+ * bash tool call that runs `git commit` or `git push` is checked first:
+ *
+ * - commit: the staged diff, plus unstaged and untracked changes when the same
+ *   command stages them (`git add … && git commit`, `git commit -a`), and the
+ *   command itself, which holds the commit message
+ * - push: the changes in the pushed commits (the refspecs' sources, or HEAD)
+ *   that no remote has yet
+ *
+ * Git runs where the command would: a leading `cd <dir> &&` and `git -C <dir>`
+ * are followed. Pushes with wildcard refspecs, and anything git can't resolve,
+ * are let through with a warning that they weren't scanned.
+ *
+ * Added lines are scanned for cloud and API tokens, private keys, credentials
+ * in assignments and URLs, JWTs, high-entropy strings and email addresses, and
+ * for any extra patterns from the settings. Findings block the call, and the
+ * agent is told what was found where (values masked). With a UI, each finding
+ * can be allowed in a confirmation dialog instead; allowed findings are
+ * remembered by fingerprint and the call goes through once all are allowed.
+ *
+ * Settings live in ~/.pi/agent/commit-guard.json, with per-project overrides
+ * in .pi/commit-guard.json:
+ *
+ *   {
+ *     "emails": true,
+ *     "entropy": 4.5,
+ *     "patterns": { "Internal host": "\\b[a-z0-9-]+\\.corp\\.example\\b" },
+ *     "ignore": ["fixtures/**"],
+ *     "allow": [{ "fingerprint": "3f9a0c1d2e4b5a67", "rule": "Email", "value": "ra…@gmail.com" }]
+ *   }
+ */
+
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getAgentDir, isToolCallEventType } from "@mariozechner/pi-coding-agent";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { basename, dirname, join, resolve } from "path";
+
+interface Rule {
+	name: string;
+	pattern: RegExp;
+	// Capture group holding the secret; the whole match if unset
+	group?: number;
+}
+
+interface AllowEntry {
+	fingerprint: string;
+	rule?: string;
+	// Masked value, so the file says what was allowed
+	value?: string;
+}
+
+interface Settings {
+	// Report email addresses
+	emails: boolean;
+	// Minimum Shannon entropy (bits per character) for long tokens; 0 turns the check off
+	entropy: number;
+	rules: Rule[];
+	// Path globs that are never scanned
+	ignore: RegExp[];
+	allow: AllowEntry[];
+	warnings: string[];
+}
+
+interface Finding {
+	rule: string;
+	file: string;
+	line?: number;
+	value: string;
+	fingerprint: string;
+}
+
+interface AddedLine {
+	file: string;
+	line?: number;
+	text: string;
+}
+
+const SETTINGS_PATH = join(getAgentDir(), "commit-guard.json");
+const PROJECT_SETTINGS_PATH = join(".pi", "commit-guard.json");
+// Placeholder file name for the commit command itself
+const COMMAND_FILE = "(command)";
+const MAX_FILE_BYTES = 1_000_000;
+// Findings listed in the block reason; the rest are counted
+const MAX_REPORTED = 20;
+// Checksums in these files would all look like secrets to the entropy check
+const LOCK_FILES = ["package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "bun.lock", "Cargo.lock", "go.sum", "poetry.lock", "composer.lock", "Gemfile.lock"];
+
+const BUILTIN_RULES: Rule[] = [
+	{ name: "Private key", pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+	{ name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+	{ name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+	{ name: "GitLab token", pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/g },
+	{ name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+	{ name: "Slack webhook", pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g },
+	{ name: "API key", pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}/g },
+	{ name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+	{ name: "Stripe key", pattern: /\b[rsp]k_live_[0-9A-Za-z]{16,}\b/g },
+	{ name: "npm token", pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+	{ name: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+	{ name: "Password in URL", pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s:@/]{3,})@/gi, group: 1 },
+	{
+		name: "Credential",
+		pattern: /\b[\w.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|auth)\b["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi,
+		group: 1,
+	},
+];
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+// Addresses that are public by design
+const EMAIL_ALLOWED = /@(?:(?:[\w-]+\.)*example\.(?:com|org|net)|users\.noreply\.github\.com|localhost)$|^(?:no-?reply|git)@/i;
+const TOKEN_PATTERN = /[A-Za-z0-9+/=_-]{32,}/g;
+// git's global options that take their value as a separate argument
+const GIT_VALUE_OPTIONS = ["-C", "-c", "--git-dir", "--work-tree", "--namespace", "--config-env", "--super-prefix"];
+// `git push` options that take their value as a separate argument
+const PUSH_VALUE_OPTIONS = ["-o", "--push-option", "--repo", "--receive-pack", "--exec"];
+const SHELL_WORD = /"([^"]*)"|'([^']*)'|(\S+)/g;
+// `cd <dir>` at the start of the command or after `&&`, `;` or `(`
+const CD_COMMAND = /(?:^|&&|;|\()\s*cd\s+("[^"]*"|'[^']*'|[^\s;&|)]+)/g;
+// `git [global options] commit|push`; the options are captured for our own git calls
+const GIT_COMMAND = new RegExp(
+	`\\bgit((?:\\s+(?:${GIT_VALUE_OPTIONS.join("|")})\\s+(?:"[^"]*"|'[^']*'|\\S+)|\\s+-[a-zA-Z-]+(?:=\\S+)?)*)\\s+(commit|push)\\b`,
+);
+// Values of credential assignments that are clearly not the secret itself
+const PLACEHOLDER = /^(?:\$|<|\{|%|process\.env|os\.environ|env\.)|^(?:x+|\*+|\.+|changeme|password|secret|example|redacted|dummy|test|null|undefined|none)$/i;
+
+function shellWords(text: string): string[] {
+	return [...text.matchAll(SHELL_WORD)].map((word) => word[1] ?? word[2] ?? word[3]);
+}
+
+/**
+ * Revisions a `git push` sends, from the arguments after `push`: the source
+ * side of each refspec, or HEAD without refspecs. Undefined for wildcard
+ * refspecs, which would need the remote's refs to resolve
+ */
+function pushedRevisions(args: string): string[] | undefined {
+	const revisions: string[] = [];
+	const positional: string[] = [];
+	const words = shellWords(args);
+	for (let i = 0; i < words.length; i++) {
+		const word = words[i];
+		if (word === "--all" || word === "--branches" || word === "--mirror") revisions.push("--branches");
+		else if (word === "--tags") revisions.push("--tags");
+		else if (PUSH_VALUE_OPTIONS.includes(word)) i++;
+		else if (!word.startsWith("-")) positional.push(word);
+	}
+
+	// The first positional argument is the remote
+	const refspecs = positional.slice(1);
+	for (let i = 0; i < refspecs.length; i++) {
+		// "tag v1.0" is short for "refs/tags/v1.0:refs/tags/v1.0"
+		const refspec = refspecs[i] === "tag" && i + 1 < refspecs.length ? `refs/tags/${refspecs[++i]}` : refspecs[i];
+		const source = refspec.replace(/^\+/, "").split(":")[0];
+		if (source.includes("*")) return undefined;
+		// ":branch" deletes the remote branch and sends nothing
+		if (source) revisions.push(source);
+	}
+	return revisions.length > 0 || refspecs.length > 0 ? revisions : ["HEAD"];
+}
+
+function readSettingsFile(path: string, warnings: string[]): Record<string, unknown> {
+	try {
+		const raw: unknown = JSON.parse(readFileSync(path, "utf8"));
+		return raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			warnings.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		return {};
+	}
+}
+
+/**
+ * `*` matches within a path segment, `**` across segments; a pattern without a
+ * slash matches the file name anywhere
+ */
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("**")
+		.map((part) => part.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^/]*").replace(/\?/g, "[^/]"))
+		.join(".*");
+	return new RegExp(glob.includes("/") ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+/**
+ * Read the global and project settings. Patterns, ignores and allowlists from
+ * both files apply; the project file wins for `emails` and `entropy`. Missing
+ * keys fall back to reporting emails and an entropy threshold of 4.5
+ */
+function loadSettings(cwd: string): Settings {
+	const warnings: string[] = [];
+	const global = readSettingsFile(SETTINGS_PATH, warnings);
+	const project = readSettingsFile(resolve(cwd, PROJECT_SETTINGS_PATH), warnings);
+	const pick = (key: string) => (project[key] !== undefined ? project[key] : global[key]);
+
+	const rules = [...BUILTIN_RULES];
+	const ignore: RegExp[] = [];
+	const allow: AllowEntry[] = [];
+	for (const raw of [global, project]) {
+		const patterns = raw.patterns && typeof raw.patterns === "object" ? raw.patterns : {};
+		for (const [name, source] of Object.entries(patterns)) {
+			try {
+				rules.push({ name, pattern: new RegExp(String(source), "g") });
+			} catch (error) {
+				warnings.push(`Pattern "${name}": ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+		if (Array.isArray(raw.ignore)) ignore.push(...raw.ignore.filter((glob): glob is string => typeof glob === "string").map(globToRegExp));
+		allow.push(...readAllowList(raw));
+	}
+
+	const entropy = pick("entropy");
+	return {
+		emails: pick("emails") !== false,
+		entropy: typeof entropy === "number" && entropy >= 0 ? entropy : 4.5,
+		rules,
+		ignore,
+		allow,
+		warnings,
+	};
+}
+
+function readAllowList(raw: Record<string, unknown>): AllowEntry[] {
+	if (!Array.isArray(raw.allow)) return [];
+	return raw.allow.filter(
+		(entry): entry is AllowEntry => !!entry && typeof entry === "object" && typeof (entry as AllowEntry).fingerprint === "string",
+	);
+}
+
+function fingerprint(value: string): string {
+	return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Enough of the value to recognise it, never enough to use it
+ */
+function mask(value: string): string {
+	const at = value.indexOf("@");
+	if (at > 0 && !value.includes(" ")) return `${value.slice(0, Math.min(2, at))}…${value.slice(at)}`;
+	if (value.length <= 8) return `${value.slice(0, 1)}…`;
+	if (value.startsWith("-----")) return value;
+	return `${value.slice(0, 4)}…${value.slice(-2)} (${value.length} chars)`;
+}
+
+function shannonEntropy(text: string): number {
+	const counts = new Map<string, number>();
+	for (const char of text) counts.set(char, (counts.get(char) ?? 0) + 1);
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const p = count / text.length;
+		entropy -= p * Math.log2(p);
+	}
+	return entropy;
+}
+
+/**
+ * Added lines of a unified diff (also `git log -p` output), with their file and line number
+ */
+function parseDiff(diff: string): AddedLine[] {
+	const added: AddedLine[] = [];
+	let file = "";
+	let line = 0;
+	for (const text of diff.split("\n")) {
+		if (text.startsWith("+++ ")) {
+			file = text.slice(4).replace(/^b\//, "");
+		} else if (text.startsWith("@@")) {
+			line = Number(text.match(/\+(\d+)/)?.[1] ?? 0);
+		} else if (text.startsWith("+") && file && file !== "/dev/null") {
+			added.push({ file, line, text: text.slice(1) });
+			line++;
+		} else if (text.startsWith(" ")) {
+			line++;
+		}
+	}
+	return added;
+}
+
+function scanLine(added: AddedLine, settings: Settings): Finding[] {
+	const findings: Finding[] = [];
+	const found = (rule: string, value: string) =>
+		findings.push({ rule, file: added.file, line: added.line, value, fingerprint: fingerprint(value) });
+	// Spans already reported on this line, so later checks don't repeat them
+	const seen: [number, number][] = [];
+	const overlaps = (match: RegExpMatchArray) =>
+		seen.some(([start, end]) => match.index! < end && match.index! + match[0].length > start);
+
+	for (const rule of settings.rules) {
+		for (const match of added.text.matchAll(rule.pattern)) {
+			const value = match[rule.group ?? 0];
+			if (!value || (rule.name === "Credential" && PLACEHOLDER.test(value))) continue;
+			found(rule.name, value);
+			seen.push([match.index!, match.index! + match[0].length]);
+		}
+	}
+
+	if (settings.emails) {
+		for (const match of added.text.matchAll(EMAIL_PATTERN)) {
+			if (!EMAIL_ALLOWED.test(match[0]) && !overlaps(match)) found("Email", match[0]);
+		}
+	}
+
+	if (settings.entropy > 0 && !LOCK_FILES.includes(basename(added.file))) {
+		for (const match of added.text.matchAll(TOKEN_PATTERN)) {
+			const token = match[0];
+			// Paths and identifiers are long but not random
+			if (overlaps(match) || /^[a-z_-]+$|^[A-Z_-]+$|\//.test(token)) continue;
+			if (shannonEntropy(token) >= settings.entropy) found("High-entropy string", token);
+		}
+	}
+	return findings;
+}
+
+export default function (pi: ExtensionAPI) {
+	const git = async (cwd: string, args: string[], signal?: AbortSignal) => {
+		const result = await pi.exec("git", args, { cwd, signal, timeout: 30_000 });
+		if (result.code !== 0) throw new Error(result.stderr.trim() || `git ${args[0]} failed`);
+		return result.stdout;
+	};
+
+	/**
+	 * Lines that `command` is about to commit or push
+	 */
+	const collectLines = async (
+		command: string,
+		action: "commit" | "push",
+		cwd: string,
+		options: string[],
+		revisions: string[],
+		signal?: AbortSignal,
+	): Promise<AddedLine[]> => {
+		const run = (args: string[]) => git(cwd, [...options, ...args], signal);
+		const diffArgs = ["--no-color", "--no-ext-diff", "-U0"];
+		if (action === "push") {
+			if (revisions.length === 0) return [];
+			return parseDiff(await run(["log", "-p", "--format=", ...diffArgs, ...revisions, "--not", "--remotes", "--"]));
+		}
+
+		const lines = parseDiff(await run(["diff", "--cached", ...diffArgs]));
+		// Whatever the command stages right before committing isn't staged yet
+		const commitAt = command.search(/\bcommit\b/);
+		const stagesFirst = /\bgit\s+(?:add|stage)\b/.test(command.slice(0, commitAt));
+		const commitsAll = /\bcommit\b[^|;&]*\s(?:-[a-zA-Z]*a[a-zA-Z]*|--all)\b/.test(command);
+		if (!stagesFirst && !commitsAll) return lines;
+
+		lines.push(...parseDiff(await run(["diff", ...diffArgs])));
+		if (stagesFirst) {
+			const root = (await run(["rev-parse", "--show-toplevel"])).trim();
+			const untracked = (await run(["ls-files", "--others", "--exclude-standard", "--full-name", "-z"])).split("\0").filter(Boolean);
+			for (const file of untracked) {
+				try {
+					const content = await readFile(resolve(root, file), "utf8");
+					if (content.length > MAX_FILE_BYTES || content.includes("\0")) continue;
+					content.split("\n").forEach((text, index) => lines.push({ file, line: index + 1, text }));
+				} catch {
+					// Unreadable; git will complain about it itself
+				}
+			}
+		}
+		return lines;
+	};
+
+	const allowFindings = async (findings: Finding[]) => {
+		const warnings: string[] = [];
+		const raw = readSettingsFile(SETTINGS_PATH, warnings);
+		if (warnings.length > 0) throw new Error(warnings[0]);
+		const allow = readAllowList(raw);
+		for (const finding of findings) {
+			allow.push({ fingerprint: finding.fingerprint, rule: finding.rule, value: mask(finding.value) });
+		}
+		await mkdir(dirname(SETTINGS_PATH), { recursive: true });
+		await writeFile(SETTINGS_PATH, JSON.stringify({ ...raw, allow }, null, 2) + "\n", "utf8");
+	};
+
+	const describe = (finding: Finding) =>
+		`${finding.file}${finding.line !== undefined ? `:${finding.line}` : ""}: ${finding.rule} ${mask(finding.value)} [${finding.fingerprint}]`;
+
+	const check = async (command: string, ctx: ExtensionContext, signal?: AbortSignal) => {
+		const match = command.match(GIT_COMMAND);
+		if (!match) return undefined;
+		const action = match[2] as "commit" | "push";
+
+		// A leading `cd` and -C move where git runs; the other global options (-c, --git-dir, …) are passed on
+		let cwd = ctx.cwd;
+		for (const cd of command.slice(0, match.index).matchAll(CD_COMMAND)) {
+			const dir = shellWords(cd[1])[0];
+			cwd = resolve(cwd, dir === "~" || dir.startsWith("~/") ? homedir() + dir.slice(1) : dir);
+		}
+		const options: string[] = [];
+		const words = shellWords(match[1]);
+		for (let i = 0; i < words.length; i++) {
+			if (words[i] === "-C" && i + 1 < words.length) cwd = resolve(cwd, words[++i]);
+			else options.push(words[i]);
+		}
+
+		// The push arguments end at the next shell operator or redirection
+		const pushArgs = command.slice(match.index! + match[0].length).split(/[;&|\n]|\s\d*[<>]/)[0];
+		const revisions = action === "push" ? pushedRevisions(pushArgs) : [];
+		if (!revisions) {
+			ctx.ui.notify("commit-guard: wildcard refspecs are not scanned; this push goes through unchecked", "warning");
+			return undefined;
+		}
+
+		const settings = loadSettings(cwd);
+		for (const warning of settings.warnings) ctx.ui.notify(`commit-guard: ${warning}`, "warning");
+
+		let lines: AddedLine[];
+		try {
+			lines = await collectLines(command, action, cwd, options, revisions, signal);
+		} catch (error) {
+			// Not a repository, an unknown revision, …; git itself reports the real problem
+			ctx.ui.notify(`commit-guard: git ${action} not scanned: ${error instanceof Error ? error.message : String(error)}`, "warning");
+			return undefined;
+		}
+		if (action === "commit") lines.push({ file: COMMAND_FILE, text: command });
+
+		const allowed = new Set(settings.allow.map((entry) => entry.fingerprint));
+		const findings: Finding[] = [];
+		const reported = new Set<string>();
+		for (const line of lines) {
+			if (settings.ignore.some((pattern) => pattern.test(line.file))) continue;
+			for (const finding of scanLine(line, settings)) {
+				const key = `${finding.fingerprint}:${finding.file}:${finding.line}`;
+				if (allowed.has(finding.fingerprint) || reported.has(key)) continue;
+				reported.add(key);
+				findings.push(finding);
+			}
+		}
+		if (findings.length === 0) return undefined;
+
+		// One dialog per distinct value; stop at the first one the user keeps blocked
+		if (ctx.hasUI) {
+			const distinct = [...new Map(findings.map((finding) => [finding.fingerprint, finding])).values()];
+			const approved: Finding[] = [];
+			for (const [index, finding] of distinct.entries()) {
+				const others = findings.filter((other) => other.fingerprint === finding.fingerprint).length - 1;
+				const ok = await ctx.ui.confirm(
+					`git ${action}: possible secret ${index + 1}/${distinct.length}`,
+					`${describe(finding)}${others > 0 ? ` (+${others} more)` : ""}\n\nAllow it from now on (in ${SETTINGS_PATH})?`,
+				);
+				if (!ok) break;
+				approved.push(finding);
+			}
+			if (approved.length > 0) {
+				try {
+					await allowFindings(approved);
+				} catch (error) {
+					ctx.ui.notify(`Error: ${error instanceof Error ? error.message : String(error)}`, "error");
+				}
+			}
+			if (approved.length === distinct.length) return undefined;
+			const remaining = new Set(distinct.slice(approved.length).map((finding) => finding.fingerprint));
+			findings.splice(0, findings.length, ...findings.filter((finding) => remaining.has(finding.fingerprint)));
+		}
+
+		const where = action === "commit" ? "the changes being committed" : "the commits being pushed";
+		const listed = findings.slice(0, MAX_REPORTED).map((finding) => `- ${describe(finding)}`);
+		if (findings.length > MAX_REPORTED) listed.push(`- … and ${findings.length - MAX_REPORTED} more`);
+		ctx.ui.notify(`Blocked git ${action}: ${findings.length} possible secret${findings.length === 1 ? "" : "s"}`, "warning");
+		return {
+			block: true,
+			reason: [
+				`Blocked git ${action}: found ${findings.length} possible secret${findings.length === 1 ? "" : "s"} or personal data in ${where}:`,
+				...listed,
+				"",
+				"Remove them (unstage the file, read the value from the environment, replace it with a placeholder" +
+					(action === "push" ? ", rewrite the commits that contain it" : "") +
+					`) and try again. If a finding is a false positive, ask the user to allow it; its fingerprint goes in the "allow" list of ${SETTINGS_PATH}.`,
+			].join("\n"),
+		};
+	};
+
+	pi.on("tool_call", async (event, ctx) => {
+		if (!isToolCallEventType("bash", event)) return undefined;
+		return check(event.input.command, ctx, ctx.signal);
+	});
+}
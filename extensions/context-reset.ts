@@ -0,0 +1,261 @@
+/**
+ * Context Reset Extension
+ *
+ * Automates the context-reset workflow of the anthropic-harness
+ * context-reset-handoff agent. After every turn the context usage is checked;
+ * once it reaches the threshold the agent is asked (as a follow-up, so the
+ * current work finishes first) to write .pi/handoff.md using the
+ * context-reset-handoff prompt. When it is written, /context-reset is put into
+ * the editor: pressing Enter archives the handoff to .pi/handoffs/ and starts a
+ * fresh session seeded with it. Extensions can't switch sessions on their own,
+ * hence the one key press.
+ *
+ * /context-reset also works by hand (asking for a handoff first if there is no
+ * fresh one), and /context-reset history lists the archived handoffs. The
+ * status bar shows the context usage and how many resets this project has had:
+ * "ctx 63% · ↻2". Settings live in ~/.pi/agent/context-reset.json:
+ *
+ *   { "threshold": 75, "auto": true }
+ */
+
+import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getAgentDir, stripFrontmatter } from "@mariozechner/pi-coding-agent";
+import { readFileSync, realpathSync, statSync } from "fs";
+import { copyFile, mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join, relative, resolve } from "path";
+import { fileURLToPath } from "url";
+
+interface Settings {
+	// Context usage in percent that triggers a handoff
+	threshold: number;
+	// Ask for the handoff automatically, or only warn
+	auto: boolean;
+}
+
+// One archived handoff
+interface ResetRecord {
+	at: number;
+	percent?: number;
+	file: string;
+	session?: string;
+}
+
+// Resolve the symlink pi may load us through so the harness is found next to the real file
+const REPO_DIR = resolve(dirname(realpathSync(fileURLToPath(import.meta.url))), "..");
+const HANDOFF_AGENT = join(REPO_DIR, "anthropic-harness", "agents", "context-reset-handoff.md");
+const SETTINGS_PATH = join(getAgentDir(), "context-reset.json");
+const HANDOFF_PATH = join(".pi", "handoff.md");
+const ARCHIVE_DIR = join(".pi", "handoffs");
+const HISTORY_FILE = "history.json";
+const RESET_ENTRY_TYPE = "context-reset";
+
+/**
+ * Read the settings file; missing keys fall back to a 75% threshold with
+ * automatic handoffs
+ */
+function loadSettings(): Settings {
+	let raw: Partial<Settings> = {};
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(SETTINGS_PATH, "utf8"));
+		if (parsed && typeof parsed === "object") raw = parsed as Partial<Settings>;
+	} catch {
+		// No settings file
+	}
+	const threshold = Number(raw.threshold);
+	return {
+		threshold: threshold > 0 && threshold <= 100 ? threshold : 75,
+		auto: raw.auto !== false,
+	};
+}
+
+/**
+ * The project's archived handoffs; a missing or malformed history.json reads
+ * as empty, and entries without a numeric `at` and a string `file` are dropped
+ */
+function loadHistory(cwd: string): ResetRecord[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(readFileSync(resolve(cwd, ARCHIVE_DIR, HISTORY_FILE), "utf8"));
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(parsed)) return [];
+	return parsed.filter(
+		(entry): entry is ResetRecord =>
+			!!entry && typeof entry === "object" && typeof entry.at === "number" && typeof entry.file === "string",
+	);
+}
+
+/**
+ * The handoff agent's instructions with the output path filled in
+ */
+function handoffPrompt(path: string): string {
+	let instructions: string;
+	try {
+		instructions = stripFrontmatter(readFileSync(HANDOFF_AGENT, "utf8")).trim();
+	} catch {
+		instructions =
+			"Produce a context-reset handoff: what was completed, the current state, what remains, key decisions and constraints, and running state. The next agent has ZERO context beyond this file.";
+	}
+	return `${instructions}\n\nWrite the handoff to ${path}, replacing any existing file. Don't continue the task itself; reply with one line once the file is written.`;
+}
+
+function modifiedAt(path: string): number | undefined {
+	try {
+		return statSync(path).mtimeMs;
+	} catch {
+		return undefined;
+	}
+}
+
+function formatStamp(at: number): string {
+	return new Date(at).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function (pi: ExtensionAPI) {
+	let settings = loadSettings();
+	let percent: number | undefined;
+	// Whether usage is above the threshold and was already warned about, so it
+	// warns once per crossing
+	let warned = false;
+	// When this session asked for a handoff; undefined if it hasn't
+	let requestedAt: number | undefined;
+	// Whether /context-reset was already put into the editor for that handoff
+	let offered = false;
+	let resets = 0;
+
+	const updateStatus = (ctx: ExtensionContext) => {
+		const theme = ctx.ui.theme;
+		const color = percent === undefined || percent < settings.threshold - 10 ? "dim" : percent < settings.threshold ? "warning" : "error";
+		const usage = theme.fg(color, percent === undefined ? "ctx ?" : `ctx ${Math.round(percent)}%`);
+		ctx.ui.setStatus("context-reset", usage + (resets > 0 ? theme.fg("dim", ` · ↻${resets}`) : ""));
+	};
+
+	const requestHandoff = (ctx: ExtensionContext) => {
+		requestedAt = Date.now();
+		offered = false;
+		const path = resolve(ctx.cwd, HANDOFF_PATH);
+		pi.sendUserMessage(handoffPrompt(path), { deliverAs: "followUp" });
+	};
+
+	const restore = (ctx: ExtensionContext) => {
+		settings = loadSettings();
+		resets = loadHistory(ctx.cwd).length;
+		percent = ctx.getContextUsage()?.percent ?? undefined;
+		warned = false;
+		requestedAt = undefined;
+		offered = false;
+		updateStatus(ctx);
+	};
+
+	pi.on("session_start", async (_event, ctx) => restore(ctx));
+	pi.on("session_switch", async (_event, ctx) => restore(ctx));
+	pi.on("session_fork", async (_event, ctx) => restore(ctx));
+
+	pi.on("turn_end", async (_event, ctx) => {
+		const usage = ctx.getContextUsage();
+		// Unknown right after compaction; keep showing the last value
+		if (usage?.percent != null) percent = usage.percent;
+		updateStatus(ctx);
+
+		// Compaction can bring usage back down; the next crossing warns again
+		if (percent !== undefined && percent < settings.threshold) warned = false;
+		if (percent === undefined || percent < settings.threshold || warned) return;
+		warned = true;
+		if (!settings.auto) {
+			ctx.ui.notify(`Context at ${Math.round(percent)}%; run /context-reset to hand off to a fresh session`, "warning");
+			return;
+		}
+		ctx.ui.notify(`Context at ${Math.round(percent)}%; asking for a handoff once this task settles`, "warning");
+		requestHandoff(ctx);
+	});
+
+	pi.on("agent_end", async (_event, ctx) => {
+		if (requestedAt === undefined || offered) return;
+		const written = modifiedAt(resolve(ctx.cwd, HANDOFF_PATH));
+		if (written === undefined || written < requestedAt) return;
+		offered = true;
+		ctx.ui.setEditorText("/context-reset");
+		ctx.ui.notify(`Handoff written to ${HANDOFF_PATH}; press Enter to continue in a fresh session`, "info");
+	});
+
+	// Archive the handoff and continue in a new session that starts with it
+	const reset = async (ctx: ExtensionCommandContext, path: string) => {
+		const content = await readFile(path, "utf8");
+		const at = Date.now();
+		const archiveDir = resolve(ctx.cwd, ARCHIVE_DIR);
+		await mkdir(archiveDir, { recursive: true });
+		const archived = join(archiveDir, `handoff-${new Date(at).toISOString().replace(/[:.]/g, "-").slice(0, 19)}.md`);
+		await copyFile(path, archived);
+
+		const history = loadHistory(ctx.cwd);
+		const record: ResetRecord = {
+			at,
+			percent: percent !== undefined ? Math.round(percent) : undefined,
+			file: relative(ctx.cwd, archived),
+			session: ctx.sessionManager.getSessionFile(),
+		};
+		await writeFile(join(archiveDir, HISTORY_FILE), JSON.stringify([...history, record], null, 2));
+
+		const result = await ctx.newSession({
+			parentSession: ctx.sessionManager.getSessionFile(),
+			setup: async (sessionManager) => {
+				sessionManager.appendCustomEntry(RESET_ENTRY_TYPE, record);
+				sessionManager.appendCustomMessageEntry(
+					RESET_ENTRY_TYPE,
+					`This session continues earlier work after a context reset. The handoff from the previous session (archived at ${record.file}):\n\n${content}`,
+					true,
+				);
+			},
+		});
+		if (result.cancelled) {
+			ctx.ui.notify(`New session cancelled; the handoff is archived at ${record.file}`, "info");
+			return;
+		}
+		pi.sendUserMessage("Continue the work described in the handoff above, starting with its Current State.");
+	};
+
+	pi.registerCommand("context-reset", {
+		description: "Hand off to a fresh session seeded with .pi/handoff.md (/context-reset history lists past resets)",
+		getArgumentCompletions: (prefix) =>
+			"history".startsWith(prefix.trim()) ? [{ value: "history", label: "history", description: "List archived handoffs" }] : null,
+		handler: async (args, ctx) => {
+			const action = args?.trim() ?? "";
+			if (action === "history") {
+				const history = loadHistory(ctx.cwd);
+				const lines = history
+					.slice(-10)
+					.reverse()
+					.map((record) => `${formatStamp(record.at)}${record.percent !== undefined ? ` · ${record.percent}%` : ""} · ${record.file}`);
+				const usage = percent !== undefined ? `${Math.round(percent)}%` : "unknown";
+				const header = `Context ${usage} (reset at ${settings.threshold}%) · ${history.length} reset${history.length === 1 ? "" : "s"}`;
+				ctx.ui.notify([header, ...lines].join("\n"), "info");
+				return;
+			}
+			if (action) {
+				ctx.ui.notify(`Unknown action "${action}" (use /context-reset or /context-reset history)`, "error");
+				return;
+			}
+
+			// Use the handoff if this session wrote it; otherwise ask for one first
+			const path = resolve(ctx.cwd, HANDOFF_PATH);
+			const written = modifiedAt(path);
+			if (requestedAt === undefined || written === undefined || written < requestedAt) {
+				if (!ctx.isIdle()) {
+					ctx.ui.notify("Wait for the agent to finish, then run /context-reset again", "warning");
+					return;
+				}
+				ctx.ui.notify(`Asking for a handoff in ${HANDOFF_PATH}; /context-reset will be ready in the editor when it is written`, "info");
+				requestHandoff(ctx);
+				return;
+			}
+
+			try {
+				await reset(ctx, path);
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Error: ${errorMessage}`, "error");
+			}
+		},
+	});
+}
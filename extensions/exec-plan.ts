@@ -0,0 +1,432 @@
+/**
+ * ExecPlan Tracker Extension
+ *
+ * Follows the active ExecPlan (the living plan documents described in
+ * personal/PLANS.md) and shows its progress in the status bar:
+ * "Milestone 2/5 · 7/12 steps".
+ *
+ * The active plan is the most recently modified Markdown file with a
+ * `## Progress` section in the working directory, plans/, docs/, docs/plans/
+ * or .pi/plans/; /plan use <path> pins another one for the session. From it we
+ * read the Progress checkboxes, the `Milestone N` headings and the Decision
+ * Log. A milestone counts as done when every Progress item that belongs to it
+ * (listed under its own `### Milestone N` heading in Progress, or mentioning
+ * "Milestone N") is checked; a milestone without items counts as done.
+ *
+ * /plan opens the plan as an overlay: milestones, the checklist and the
+ * decisions. When the agent has edited files for a few turns without touching
+ * the Progress section, it gets a reminder to update the plan. Only the edit
+ * and write tools count as edits; files changed through bash are not tracked.
+ */
+
+import type { ExtensionAPI, ExtensionContext, Theme } from "@mariozechner/pi-coding-agent";
+import { matchesKey, truncateToWidth, visibleWidth, wrapTextWithAnsi, type TUI } from "@mariozechner/pi-tui";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { basename, join, relative, resolve } from "path";
+
+interface ProgressItem {
+	text: string;
+	done: boolean;
+	// Milestone number the item belongs to, if any
+	milestone?: number;
+}
+
+interface Milestone {
+	number: number;
+	title: string;
+	done: boolean;
+}
+
+interface Decision {
+	decision: string;
+	rationale?: string;
+	date?: string;
+}
+
+interface ExecPlan {
+	path: string;
+	title: string;
+	progress: ProgressItem[];
+	milestones: Milestone[];
+	decisions: Decision[];
+	// Raw Progress section, to notice when the agent updates it
+	progressText: string;
+}
+
+const SEARCH_DIRS = [".", "plans", "docs", join("docs", "plans"), join(".pi", "plans")];
+const PLAN_ENTRY_TYPE = "exec-plan";
+const REMINDER_TYPE = "exec-plan-reminder";
+// Turns with file edits but no Progress update before the agent is reminded
+const REMIND_AFTER_TURNS = 3;
+// Tools whose calls count as file edits; bash writes can't be told apart reliably
+const EDIT_TOOLS = ["edit", "write"];
+
+/**
+ * Level-2 sections by heading, each with its text up to the next `## ` heading
+ */
+function splitSections(markdown: string): Map<string, string> {
+	const sections = new Map<string, string>();
+	for (const part of markdown.split(/^## +/m).slice(1)) {
+		const newline = part.indexOf("\n");
+		const heading = (newline === -1 ? part : part.slice(0, newline)).trim();
+		sections.set(heading.toLowerCase(), newline === -1 ? "" : part.slice(newline + 1));
+	}
+	return sections;
+}
+
+function parsePlan(path: string, markdown: string): ExecPlan {
+	const sections = splitSections(markdown);
+	const progressText = sections.get("progress") ?? "";
+
+	const progress: ProgressItem[] = [];
+	let heading: number | undefined;
+	for (const line of progressText.split("\n")) {
+		const sub = line.match(/^#{3,6}\s+Milestone\s+(\d+)/i);
+		if (sub) {
+			heading = Number(sub[1]);
+			continue;
+		}
+		const item = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/);
+		if (!item) continue;
+		const mentioned = item[2].match(/\bMilestone\s+(\d+)/i);
+		progress.push({
+			text: item[2].trim(),
+			done: item[1] !== " ",
+			milestone: mentioned ? Number(mentioned[1]) : heading,
+		});
+	}
+
+	const milestones = new Map<number, Milestone>();
+	for (const match of markdown.matchAll(/^#{2,4}[ \t]+Milestone[ \t]+(\d+)\b[ \t:.—–-]*(.*)$/gim)) {
+		const number = Number(match[1]);
+		// Progress sub-headings are often bare "### Milestone 2"; keep the first titled heading
+		if (!milestones.get(number)?.title) milestones.set(number, { number, title: match[2].trim(), done: false });
+	}
+	for (const milestone of milestones.values()) {
+		const items = progress.filter((item) => item.milestone === milestone.number);
+		milestone.done = items.every((item) => item.done);
+	}
+
+	const decisions: Decision[] = [];
+	for (const line of (sections.get("decision log") ?? "").split("\n")) {
+		const field = line.match(/^\s*(?:[-*]\s+)?(Decision|Rationale|Date\/Author|Date):\s*(.*)$/i);
+		if (!field) continue;
+		const key = field[1].toLowerCase();
+		if (key === "decision") decisions.push({ decision: field[2].trim() });
+		else if (decisions.length > 0 && key === "rationale") decisions[decisions.length - 1].rationale = field[2].trim();
+		else if (decisions.length > 0) decisions[decisions.length - 1].date = field[2].trim();
+	}
+
+	return {
+		path,
+		title: markdown.match(/^# +(.+)$/m)?.[1].trim() ?? basename(path),
+		progress,
+		milestones: [...milestones.values()].sort((a, b) => a.number - b.number),
+		decisions,
+		progressText,
+	};
+}
+
+/**
+ * The most recently modified Markdown file with a `## Progress` section
+ */
+function findPlan(cwd: string): string | undefined {
+	let newest: { path: string; mtime: number } | undefined;
+	for (const dir of SEARCH_DIRS) {
+		let files: string[];
+		try {
+			files = readdirSync(resolve(cwd, dir)).filter((file) => file.toLowerCase().endsWith(".md"));
+		} catch {
+			continue;
+		}
+		for (const file of files) {
+			const path = resolve(cwd, dir, file);
+			try {
+				const { mtimeMs, size } = statSync(path);
+				// Skip huge files and anything without a Progress section
+				if (size > 1_000_000 || (newest && mtimeMs <= newest.mtime)) continue;
+				if (/^## +Progress\s*$/m.test(readFileSync(path, "utf8"))) newest = { path, mtime: mtimeMs };
+			} catch {
+				// Unreadable or vanished
+			}
+		}
+	}
+	return newest?.path;
+}
+
+function loadPlan(path: string): ExecPlan | undefined {
+	try {
+		return parsePlan(path, readFileSync(path, "utf8"));
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * "Milestone 2/5 · 7/12 steps"; without milestone-tagged steps only the count of milestones is known
+ */
+function summarizePlan(plan: ExecPlan): string {
+	const done = plan.progress.filter((item) => item.done).length;
+	const steps = `${done}/${plan.progress.length} steps`;
+	if (plan.milestones.length === 0) return steps;
+	if (!plan.progress.some((item) => item.milestone !== undefined)) return `${plan.milestones.length} milestones · ${steps}`;
+	const current = plan.milestones.findIndex((milestone) => !milestone.done);
+	const position = current === -1 ? plan.milestones.length : current + 1;
+	return `Milestone ${position}/${plan.milestones.length} · ${steps}`;
+}
+
+class PlanComponent {
+	private plan: ExecPlan;
+	private cwd: string;
+	private theme: Theme;
+	private tui: TUI;
+	private done: () => void;
+	private scrollOffset = 0;
+	private maxVisibleLines = 20;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(plan: ExecPlan, cwd: string, theme: Theme, tui: TUI, done: () => void) {
+		this.plan = plan;
+		this.cwd = cwd;
+		this.theme = theme;
+		this.tui = tui;
+		this.done = done;
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c") || matchesKey(data, "q")) {
+			this.done();
+			return;
+		}
+
+		if (matchesKey(data, "up")) {
+			this.scrollOffset = Math.max(0, this.scrollOffset - 1);
+		} else if (matchesKey(data, "down")) {
+			this.scrollOffset++;
+		} else if (matchesKey(data, "pageUp")) {
+			this.scrollOffset = Math.max(0, this.scrollOffset - this.maxVisibleLines);
+		} else if (matchesKey(data, "pageDown")) {
+			this.scrollOffset += this.maxVisibleLines;
+		} else if (matchesKey(data, "home")) {
+			this.scrollOffset = 0;
+		} else {
+			return;
+		}
+
+		this.invalidate();
+		this.tui.requestRender();
+	}
+
+	private getAllLines(innerWidth: number): string[] {
+		const th = this.theme;
+		const plan = this.plan;
+		const wrap = (text: string, indent: number) =>
+			wrapTextWithAnsi(text, Math.max(10, innerWidth - indent)).map((line) => " ".repeat(indent) + line);
+
+		const lines: string[] = [];
+		lines.push(truncateToWidth(` ${th.fg("accent", th.bold(plan.title))}`, innerWidth));
+		lines.push(th.fg("dim", truncateToWidth(` ${relative(this.cwd, plan.path) || plan.path} · ${summarizePlan(plan)}`, innerWidth)));
+
+		if (plan.milestones.length > 0) {
+			lines.push("");
+			lines.push(` ${th.fg("accent", "Milestones")}`);
+			const current = plan.milestones.find((milestone) => !milestone.done);
+			for (const milestone of plan.milestones) {
+				const icon = milestone.done ? th.fg("success", "✓") : milestone === current ? th.fg("accent", "►") : th.fg("dim", "○");
+				const items = plan.progress.filter((item) => item.milestone === milestone.number);
+				const count = items.length > 0 ? th.fg("dim", ` ${items.filter((item) => item.done).length}/${items.length}`) : "";
+				lines.push(truncateToWidth(` ${icon} ${milestone.number}. ${milestone.title}${count}`, innerWidth));
+			}
+		}
+
+		lines.push("");
+		lines.push(` ${th.fg("accent", "Progress")}`);
+		if (plan.progress.length === 0) lines.push(th.fg("dim", "   (no checkboxes yet)"));
+		for (const item of plan.progress) {
+			const box = item.done ? th.fg("success", "[x]") : th.fg("dim", "[ ]");
+			const [first, ...rest] = wrap(item.done ? th.fg("dim", item.text) : item.text, 7);
+			lines.push(` ${box} ${first.trimStart()}`, ...rest);
+		}
+
+		lines.push("");
+		lines.push(` ${th.fg("accent", "Decision Log")}`);
+		if (plan.decisions.length === 0) lines.push(th.fg("dim", "   (no decisions recorded)"));
+		for (const decision of plan.decisions) {
+			lines.push(...wrap(`• ${decision.decision}`, 2));
+			if (decision.rationale) lines.push(...wrap(th.fg("dim", decision.rationale), 4));
+			if (decision.date) lines.push(...wrap(th.fg("dim", decision.date), 4));
+		}
+
+		lines.push("");
+		lines.push(` ${th.fg("dim", "↑↓/PgUp/PgDn: scroll • Esc: close")}`);
+		return lines;
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const th = this.theme;
+		const innerW = Math.max(1, width - 2);
+		const allLines = this.getAllLines(innerW);
+		this.scrollOffset = Math.min(this.scrollOffset, Math.max(0, allLines.length - this.maxVisibleLines));
+		const visibleLines = allLines.slice(this.scrollOffset, this.scrollOffset + this.maxVisibleLines);
+		const padLine = (line: string) => truncateToWidth(line, innerW, "...", true);
+
+		const title = truncateToWidth(" ExecPlan ", innerW);
+		const lines = [th.fg("border", "╭") + th.fg("accent", title) + th.fg("border", "─".repeat(Math.max(0, innerW - visibleWidth(title))) + "╮")];
+		for (const line of visibleLines) {
+			lines.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
+		}
+		for (let i = visibleLines.length; i < this.maxVisibleLines; i++) {
+			lines.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
+		}
+		const scrollInfo = allLines.length > this.maxVisibleLines ? ` ${this.scrollOffset + 1}-${Math.min(allLines.length, this.scrollOffset + this.maxVisibleLines)}/${allLines.length} ` : "";
+		lines.push(th.fg("border", "╰" + "─".repeat(Math.max(0, innerW - scrollInfo.length))) + th.fg("dim", scrollInfo) + th.fg("border", "╯"));
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
+export default function (pi: ExtensionAPI) {
+	// Plan chosen with /plan use; otherwise the newest one is found each time
+	let pinnedPath: string | undefined;
+	let plan: ExecPlan | undefined;
+	let lastProgress: string | undefined;
+	// Turns that edited files since the Progress section last changed (or the last reminder)
+	let staleTurns = 0;
+
+	const refresh = (ctx: ExtensionContext) => {
+		const path = pinnedPath ?? findPlan(ctx.cwd);
+		plan = path ? loadPlan(path) : undefined;
+		if (!plan) {
+			ctx.ui.setStatus("exec-plan", undefined);
+			return;
+		}
+		const theme = ctx.ui.theme;
+		const complete = plan.progress.length > 0 && plan.progress.every((item) => item.done);
+		ctx.ui.setStatus("exec-plan", theme.fg(complete ? "success" : "dim", `▤ ${summarizePlan(plan)}`));
+	};
+
+	const restore = (ctx: ExtensionContext) => {
+		pinnedPath = undefined;
+		for (const entry of ctx.sessionManager.getBranch()) {
+			if (entry.type === "custom" && entry.customType === PLAN_ENTRY_TYPE) {
+				pinnedPath = (entry.data as { path?: string } | undefined)?.path;
+			}
+		}
+		refresh(ctx);
+		lastProgress = plan?.progressText;
+		staleTurns = 0;
+	};
+
+	pi.on("session_start", async (_event, ctx) => restore(ctx));
+	pi.on("session_switch", async (_event, ctx) => restore(ctx));
+	pi.on("session_fork", async (_event, ctx) => restore(ctx));
+	pi.on("session_tree", async (_event, ctx) => restore(ctx));
+
+	pi.on("turn_end", async (event, ctx) => {
+		refresh(ctx);
+		if (!plan) return;
+
+		if (plan.progressText !== lastProgress) {
+			lastProgress = plan.progressText;
+			staleTurns = 0;
+			return;
+		}
+
+		// Edits to files other than the plan itself
+		const content = event.message.role === "assistant" ? event.message.content : [];
+		const edited = content.some((block) => {
+			if (block.type !== "toolCall" || !EDIT_TOOLS.includes(block.name)) return false;
+			const path = (block.arguments as { path?: string }).path;
+			return path !== undefined && resolve(ctx.cwd, path) !== plan!.path;
+		});
+		if (!edited || ++staleTurns < REMIND_AFTER_TURNS) return;
+
+		staleTurns = 0;
+		pi.sendMessage(
+			{
+				customType: REMINDER_TYPE,
+				content: `Files have changed over the last ${REMIND_AFTER_TURNS} turns but the Progress section of the ExecPlan (${relative(ctx.cwd, plan.path)}) has not. Update Progress (check off finished steps with a timestamp, split partially done ones), and record any decisions in the Decision Log, before continuing.`,
+				display: true,
+			},
+			{ deliverAs: "steer" },
+		);
+	});
+
+	pi.registerCommand("plan", {
+		description: "Show the active ExecPlan (/plan use <path> pins a plan, /plan auto finds the newest again)",
+		getArgumentCompletions: (prefix) => {
+			const options = [
+				{ value: "use ", label: "use", description: "Pin a plan file" },
+				{ value: "auto", label: "auto", description: "Follow the newest plan" },
+			];
+			const matches = options.filter((option) => option.label.startsWith(prefix.trim()));
+			return matches.length > 0 ? matches : null;
+		},
+		handler: async (args, ctx) => {
+			const [action, ...rest] = (args?.trim() ?? "").split(/\s+/);
+			if (action === "use") {
+				const path = resolve(ctx.cwd, rest.join(" "));
+				if (!rest.length || !loadPlan(path)) {
+					ctx.ui.notify(rest.length ? `Can't read ${path}` : "Usage: /plan use <path>", "error");
+					return;
+				}
+				pinnedPath = path;
+				pi.appendEntry(PLAN_ENTRY_TYPE, { path });
+				refresh(ctx);
+				lastProgress = plan?.progressText;
+				ctx.ui.notify(`Following ${relative(ctx.cwd, path)}`, "info");
+				return;
+			}
+			if (action === "auto") {
+				pinnedPath = undefined;
+				pi.appendEntry(PLAN_ENTRY_TYPE, {});
+				refresh(ctx);
+				lastProgress = plan?.progressText;
+				ctx.ui.notify(plan ? `Following ${relative(ctx.cwd, plan.path)}` : "No ExecPlan found", "info");
+				return;
+			}
+			if (action) {
+				ctx.ui.notify(`Unknown action "${action}" (use /plan, /plan use <path> or /plan auto)`, "error");
+				return;
+			}
+
+			refresh(ctx);
+			const current = plan;
+			if (!current) {
+				ctx.ui.notify(`No ExecPlan found (looked for a "## Progress" section in ${SEARCH_DIRS.join(", ")})`, "info");
+				return;
+			}
+			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+				const component = new PlanComponent(current, ctx.cwd, theme, tui, () => done());
+				return {
+					render: (w) => component.render(w),
+					invalidate: () => component.invalidate(),
+					handleInput: (data) => {
+						component.handleInput(data);
+						tui.requestRender();
+					},
+				};
+			}, {
+				overlay: true,
+				overlayOptions: {
+					width: 90,
+					anchor: "bottom-left",
+					offsetY: -8,
+					margin: { top: 2, right: 2, bottom: 4, left: 2 },
+				},
+			});
+		},
+	});
+}
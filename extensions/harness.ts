@@ -0,0 +1,570 @@
+/**
+ * Harness Extension
+ *
+ * Installs the repo's agents and chains into ~/.pi/agent/agents/ (where
+ * pi-subagents and chain-runner.ts find them) from inside pi:
+ *
+ *   /harness install [anthropic|personal|all] [--force]
+ *   /harness remove [anthropic|personal|all]
+ *   /harness status [anthropic|personal|all]
+ *   /harness doctor [--fix]
+ *
+ * "anthropic" is anthropic-harness/agents and chains, "personal" is
+ * personal/agents. Before linking, every agent's frontmatter is checked (name,
+ * description, tools, output) and every chain step must name a known agent and
+ * read only files some step writes; files with errors are skipped. Existing
+ * files are never overwritten: a regular file or a link to somewhere else is a
+ * conflict (--force replaces links, never files), as is another agent with the
+ * same name. doctor also lists dangling links in the target directory and
+ * --fix removes them.
+ *
+ * The result is shown in an overlay; after install or remove pi reloads its
+ * extensions so the new agents are picked up without a restart.
+ */
+
+import type { ExtensionAPI, ExtensionCommandContext, Theme } from "@mariozechner/pi-coding-agent";
+import { getAgentDir, parseFrontmatter } from "@mariozechner/pi-coding-agent";
+import { matchesKey, truncateToWidth, visibleWidth, type TUI } from "@mariozechner/pi-tui";
+import { existsSync, lstatSync, readdirSync, readFileSync, readlinkSync, realpathSync } from "fs";
+import { mkdir, symlink, unlink } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+
+type SetName = "anthropic" | "personal";
+
+interface HarnessFile {
+	set: SetName;
+	kind: "agent" | "chain";
+	source: string;
+	// Agent or chain name from the frontmatter
+	name?: string;
+	errors: string[];
+	warnings: string[];
+	// Agents named by a chain's steps
+	agents: string[];
+}
+
+type LinkState = "installed" | "missing" | "dangling" | "conflict";
+
+interface ReportLine {
+	level: "heading" | "ok" | "info" | "warning" | "error";
+	text: string;
+}
+
+// Resolve the symlink pi may load us through so the sources are found next to the real file
+const REPO_DIR = resolve(dirname(realpathSync(fileURLToPath(import.meta.url))), "..");
+const TARGET_DIR = join(getAgentDir(), "agents");
+const SETS: Record<SetName, { agents: string; chains?: string }> = {
+	anthropic: {
+		agents: join(REPO_DIR, "anthropic-harness", "agents"),
+		chains: join(REPO_DIR, "anthropic-harness", "chains"),
+	},
+	personal: { agents: join(REPO_DIR, "personal", "agents") },
+};
+const SET_NAMES = Object.keys(SETS) as SetName[];
+const ACTIONS = ["install", "remove", "status", "doctor"];
+const BUILTIN_TOOLS = ["read", "bash", "edit", "write", "grep", "find", "ls"];
+
+function listMarkdown(dir: string | undefined, suffix: string): string[] {
+	if (!dir) return [];
+	try {
+		return readdirSync(dir)
+			.filter((file) => file.endsWith(suffix) && (suffix === ".chain.md" || !file.endsWith(".chain.md")))
+			.sort()
+			.map((file) => join(dir, file));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Agent names, reads and outputs of a chain's `## agent` sections
+ */
+function parseChainSteps(body: string): { agent: string; reads: string[]; output?: string }[] {
+	return body
+		.split(/^## +/m)
+		.slice(1)
+		.map((section) => {
+			const lines = section.split("\n");
+			const step: { agent: string; reads: string[]; output?: string } = { agent: lines.shift()!.trim(), reads: [] };
+			for (const line of lines) {
+				const match = line.match(/^(reads|output):\s*(.*)$/);
+				if (!match) break;
+				if (match[1] === "reads") {
+					step.reads = match[2].replace(/[[\]"']/g, "").split(",").map((item) => item.trim()).filter(Boolean);
+				} else {
+					step.output = match[2].trim() || undefined;
+				}
+			}
+			return step;
+		});
+}
+
+/**
+ * Check one agent file's frontmatter
+ */
+function checkAgent(set: SetName, source: string, knownTools: Set<string>): HarnessFile {
+	const file: HarnessFile = { set, kind: "agent", source, errors: [], warnings: [], agents: [] };
+	let content: string;
+	try {
+		content = readFileSync(source, "utf8");
+	} catch (error) {
+		file.errors.push(`unreadable: ${error instanceof Error ? error.message : String(error)}`);
+		return file;
+	}
+	if (!content.startsWith("---")) {
+		file.errors.push("no frontmatter");
+		return file;
+	}
+
+	const { frontmatter } = parseFrontmatter<Record<string, unknown>>(content);
+	const name = typeof frontmatter.name === "string" ? frontmatter.name.trim() : "";
+	file.name = name || undefined;
+	if (!name) file.errors.push("missing `name`");
+	else if (name !== basename(source, ".md")) file.warnings.push(`name "${name}" differs from the file name`);
+	if (typeof frontmatter.description !== "string" || !frontmatter.description.trim()) {
+		file.errors.push("missing `description`");
+	}
+
+	if (frontmatter.tools !== undefined) {
+		const tools = String(frontmatter.tools).split(",").map((tool) => tool.trim()).filter(Boolean);
+		if (tools.length === 0) file.errors.push("`tools` is empty (leave it out to allow every tool)");
+		const unknown = tools.filter((tool) => !knownTools.has(tool));
+		if (unknown.length > 0) file.warnings.push(`tools not available in this session: ${unknown.join(", ")}`);
+	}
+
+	if (frontmatter.output !== undefined) {
+		const output = String(frontmatter.output).trim();
+		if (!/^[\w.-]+\.\w+$/.test(output)) file.errors.push(`\`output\` "${output}" must be a plain file name like plan.md`);
+	}
+	return file;
+}
+
+/**
+ * Check one chain file; step agents are resolved against `agentNames`
+ */
+function checkChain(set: SetName, source: string, agentNames: Set<string>): HarnessFile {
+	const file: HarnessFile = { set, kind: "chain", source, errors: [], warnings: [], agents: [] };
+	let content: string;
+	try {
+		content = readFileSync(source, "utf8");
+	} catch (error) {
+		file.errors.push(`unreadable: ${error instanceof Error ? error.message : String(error)}`);
+		return file;
+	}
+
+	const { frontmatter, body } = parseFrontmatter<Record<string, unknown>>(content);
+	file.name = typeof frontmatter.name === "string" && frontmatter.name.trim() ? frontmatter.name.trim() : undefined;
+	if (!file.name) file.errors.push("missing `name`");
+	if (typeof frontmatter.description !== "string" || !frontmatter.description.trim()) {
+		file.errors.push("missing `description`");
+	}
+
+	const steps = parseChainSteps(body);
+	if (steps.length === 0) file.errors.push("no `## agent` steps");
+	const outputs = new Set(steps.flatMap((step) => (step.output ? [step.output] : [])));
+	steps.forEach((step, index) => {
+		file.agents.push(step.agent);
+		if (!agentNames.has(step.agent)) {
+			file.warnings.push(`step ${index + 1}: agent "${step.agent}" is neither in the harness nor installed`);
+		}
+		for (const read of step.reads) {
+			if (!outputs.has(read)) file.warnings.push(`step ${index + 1}: reads ${read}, which no step writes`);
+		}
+	});
+	return file;
+}
+
+/**
+ * Whether `path` is a link to `source`, missing, a dangling link or something else
+ */
+function linkState(path: string, source: string): LinkState {
+	let stats;
+	try {
+		stats = lstatSync(path);
+	} catch {
+		return "missing";
+	}
+	if (!stats.isSymbolicLink()) return "conflict";
+	const target = resolve(dirname(path), readlinkSync(path));
+	if (target === source) return "installed";
+	return existsSync(target) ? "conflict" : "dangling";
+}
+
+/**
+ * Symlinks in the target directory whose target no longer exists
+ */
+function findDanglingLinks(): string[] {
+	let files: string[];
+	try {
+		files = readdirSync(TARGET_DIR);
+	} catch {
+		return [];
+	}
+	return files
+		.map((file) => join(TARGET_DIR, file))
+		.filter((path) => {
+			try {
+				return lstatSync(path).isSymbolicLink() && !existsSync(path);
+			} catch {
+				return false;
+			}
+		});
+}
+
+/**
+ * Agent names declared by files already in the target directory, with their paths
+ */
+function installedAgents(): Map<string, string> {
+	const agents = new Map<string, string>();
+	for (const path of listMarkdown(TARGET_DIR, ".md")) {
+		try {
+			const { frontmatter } = parseFrontmatter<Record<string, unknown>>(readFileSync(path, "utf8"));
+			if (typeof frontmatter.name === "string" && !agents.has(frontmatter.name)) agents.set(frontmatter.name, path);
+		} catch {
+			// Dangling link, reported separately
+		}
+	}
+	return agents;
+}
+
+/**
+ * Check every agent and chain of the given sets
+ */
+function checkSets(sets: SetName[], knownTools: Set<string>): HarnessFile[] {
+	const agents = sets.flatMap((set) => listMarkdown(SETS[set].agents, ".md").map((source) => checkAgent(set, source, knownTools)));
+
+	const duplicates = new Map<string, HarnessFile[]>();
+	for (const agent of agents) {
+		if (agent.name) duplicates.set(agent.name, [...(duplicates.get(agent.name) ?? []), agent]);
+	}
+	for (const [name, files] of duplicates) {
+		if (files.length < 2) continue;
+		for (const file of files) file.errors.push(`agent name "${name}" is also used by ${files.filter((other) => other !== file).map((other) => basename(other.source)).join(", ")}`);
+	}
+
+	// Chains may use any harness agent, installed or not, plus whatever is already installed
+	const agentNames = new Set([
+		...SET_NAMES.flatMap((set) => listMarkdown(SETS[set].agents, ".md").map((source) => basename(source, ".md"))),
+		...agents.flatMap((agent) => (agent.name ? [agent.name] : [])),
+		...installedAgents().keys(),
+	]);
+	const chains = sets.flatMap((set) => listMarkdown(SETS[set].chains, ".chain.md").map((source) => checkChain(set, source, agentNames)));
+	return [...agents, ...chains];
+}
+
+function describeFile(file: HarnessFile): string {
+	return `${file.set}/${file.kind === "chain" ? "chains" : "agents"}/${basename(file.source)}`;
+}
+
+/**
+ * Validation findings as report lines, one per problem
+ */
+function findingLines(file: HarnessFile): ReportLine[] {
+	return [
+		...file.errors.map((text): ReportLine => ({ level: "error", text: `${describeFile(file)}: ${text}` })),
+		...file.warnings.map((text): ReportLine => ({ level: "warning", text: `${describeFile(file)}: ${text}` })),
+	];
+}
+
+/**
+ * Agents in the target directory (not linked from `file`) that declare the same name
+ */
+function nameConflict(file: HarnessFile, installed: Map<string, string>): string | undefined {
+	if (file.kind !== "agent" || !file.name) return undefined;
+	const path = installed.get(file.name);
+	if (!path || basename(path) === basename(file.source)) return undefined;
+	return path;
+}
+
+class HarnessReportComponent {
+	private title: string;
+	private report: ReportLine[];
+	private theme: Theme;
+	private tui: TUI;
+	private done: () => void;
+	private scrollOffset = 0;
+	private maxVisibleLines = 18;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(title: string, report: ReportLine[], theme: Theme, tui: TUI, done: () => void) {
+		this.title = title;
+		this.report = report;
+		this.theme = theme;
+		this.tui = tui;
+		this.done = done;
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c") || matchesKey(data, "q") || matchesKey(data, "enter")) {
+			this.done();
+			return;
+		}
+
+		const maxOffset = Math.max(0, this.report.length + 2 - this.maxVisibleLines);
+		if (matchesKey(data, "up")) {
+			this.scrollOffset = Math.max(0, this.scrollOffset - 1);
+		} else if (matchesKey(data, "down")) {
+			this.scrollOffset = Math.min(maxOffset, this.scrollOffset + 1);
+		} else if (matchesKey(data, "pageUp")) {
+			this.scrollOffset = Math.max(0, this.scrollOffset - this.maxVisibleLines);
+		} else if (matchesKey(data, "pageDown")) {
+			this.scrollOffset = Math.min(maxOffset, this.scrollOffset + this.maxVisibleLines);
+		} else {
+			return;
+		}
+
+		this.invalidate();
+		this.tui.requestRender();
+	}
+
+	private getAllLines(innerWidth: number): string[] {
+		const th = this.theme;
+		const icons = { ok: th.fg("success", "✓"), info: th.fg("dim", "·"), warning: th.fg("warning", "!"), error: th.fg("error", "✗") };
+		const lines = this.report.map((line) => {
+			if (line.level === "heading") return truncateToWidth(` ${th.fg("accent", line.text)}`, innerWidth);
+			const text = line.level === "info" ? th.fg("dim", line.text) : line.text;
+			return truncateToWidth(`  ${icons[line.level]} ${text}`, innerWidth);
+		});
+		lines.push("");
+		lines.push(` ${th.fg("dim", "↑↓: scroll • Esc: close")}`);
+		return lines;
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const th = this.theme;
+		const innerW = Math.max(1, width - 2);
+		const allLines = this.getAllLines(innerW);
+		const visibleLines = allLines.slice(this.scrollOffset, this.scrollOffset + this.maxVisibleLines);
+		const padLine = (line: string) => truncateToWidth(line, innerW, "...", true);
+
+		const title = truncateToWidth(` ${this.title} `, innerW);
+		const lines = [th.fg("border", "╭") + th.fg("accent", title) + th.fg("border", "─".repeat(Math.max(0, innerW - visibleWidth(title))) + "╮")];
+		for (const line of visibleLines) {
+			lines.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
+		}
+		for (let i = visibleLines.length; i < this.maxVisibleLines; i++) {
+			lines.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
+		}
+		const scrollInfo = allLines.length > this.maxVisibleLines ? ` ${this.scrollOffset + 1}-${Math.min(allLines.length, this.scrollOffset + this.maxVisibleLines)}/${allLines.length} ` : "";
+		lines.push(th.fg("border", "╰" + "─".repeat(Math.max(0, innerW - scrollInfo.length))) + th.fg("dim", scrollInfo) + th.fg("border", "╯"));
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
+export default function (pi: ExtensionAPI) {
+	const knownTools = () => new Set([...BUILTIN_TOOLS, ...pi.getAllTools().map((tool) => tool.name)]);
+
+	const install = async (sets: SetName[], force: boolean): Promise<{ report: ReportLine[]; changed: boolean }> => {
+		const report: ReportLine[] = [{ level: "heading", text: `Installing ${sets.join(" + ")} into ${TARGET_DIR}` }];
+		const installed = installedAgents();
+		let changed = false;
+		await mkdir(TARGET_DIR, { recursive: true });
+
+		for (const file of checkSets(sets, knownTools())) {
+			const link = join(TARGET_DIR, basename(file.source));
+			const label = describeFile(file);
+			report.push(...findingLines(file));
+			if (file.errors.length > 0) {
+				report.push({ level: "error", text: `${label}: skipped, fix the errors above` });
+				continue;
+			}
+
+			const clash = nameConflict(file, installed);
+			if (clash) {
+				report.push({ level: "error", text: `${label}: skipped, ${clash} already defines agent "${file.name}"` });
+				continue;
+			}
+
+			const state = linkState(link, file.source);
+			if (state === "installed") {
+				report.push({ level: "info", text: `${label}: already installed` });
+				continue;
+			}
+			if (state === "conflict") {
+				if (!force || !lstatSync(link).isSymbolicLink()) {
+					const what = lstatSync(link).isSymbolicLink() ? `links to ${readlinkSync(link)}` : "is a regular file";
+					report.push({ level: "error", text: `${label}: skipped, ${link} ${what}${what.startsWith("links") ? " (--force replaces it)" : ""}` });
+					continue;
+				}
+			}
+			if (state !== "missing") await unlink(link);
+			await symlink(file.source, link);
+			changed = true;
+			const replaced = state === "dangling" ? " (replaced a dangling link)" : state === "conflict" ? ` (replaced a link)` : "";
+			report.push({ level: "ok", text: `${label}: linked${replaced}` });
+		}
+		return { report, changed };
+	};
+
+	const remove = async (sets: SetName[]): Promise<{ report: ReportLine[]; changed: boolean }> => {
+		const report: ReportLine[] = [{ level: "heading", text: `Removing ${sets.join(" + ")} from ${TARGET_DIR}` }];
+		const sourceDirs = sets.flatMap((set) => [SETS[set].agents, SETS[set].chains ?? []].flat());
+		let changed = false;
+		let files: string[] = [];
+		try {
+			files = readdirSync(TARGET_DIR);
+		} catch {
+			// Nothing installed
+		}
+
+		for (const file of files.sort()) {
+			const link = join(TARGET_DIR, file);
+			if (!lstatSync(link).isSymbolicLink()) continue;
+			const target = resolve(TARGET_DIR, readlinkSync(link));
+			if (!sourceDirs.includes(dirname(target))) continue;
+			await unlink(link);
+			changed = true;
+			report.push({ level: "ok", text: `${file}: removed${existsSync(target) ? "" : " (was dangling)"}` });
+		}
+		if (!changed) report.push({ level: "info", text: "Nothing to remove" });
+		return { report, changed };
+	};
+
+	const status = (sets: SetName[]): ReportLine[] => {
+		const report: ReportLine[] = [];
+		const installed = installedAgents();
+		for (const set of sets) {
+			report.push({ level: "heading", text: `${set} → ${TARGET_DIR}` });
+			for (const file of checkSets([set], knownTools())) {
+				const link = join(TARGET_DIR, basename(file.source));
+				const label = describeFile(file);
+				const state = linkState(link, file.source);
+				const clash = nameConflict(file, installed);
+				if (state === "installed") report.push({ level: "ok", text: `${label}: installed` });
+				else if (state === "missing") report.push({ level: "info", text: `${label}: not installed` });
+				else if (state === "dangling") report.push({ level: "warning", text: `${label}: dangling link at ${link}` });
+				else report.push({ level: "error", text: `${label}: conflicts with ${link}` });
+				if (clash) report.push({ level: "error", text: `${label}: agent "${file.name}" is also defined by ${clash}` });
+				if (file.errors.length > 0) report.push({ level: "error", text: `${label}: ${file.errors.length} problem(s), see /harness doctor` });
+			}
+		}
+		return report;
+	};
+
+	const doctor = async (fix: boolean): Promise<ReportLine[]> => {
+		const report: ReportLine[] = [{ level: "heading", text: "Agents and chains" }];
+		const files = checkSets(SET_NAMES, knownTools());
+		const findings = files.flatMap(findingLines);
+		report.push(...(findings.length > 0 ? findings : [{ level: "ok" as const, text: `${files.length} files, no problems` }]));
+
+		report.push({ level: "heading", text: `Target ${TARGET_DIR}` });
+		const installed = installedAgents();
+		let clean = true;
+		for (const file of files) {
+			const link = join(TARGET_DIR, basename(file.source));
+			const clash = nameConflict(file, installed);
+			if (linkState(link, file.source) === "conflict") {
+				clean = false;
+				report.push({ level: "error", text: `${describeFile(file)}: ${link} is not a link to it` });
+			}
+			if (clash) {
+				clean = false;
+				report.push({ level: "error", text: `${describeFile(file)}: agent "${file.name}" is also defined by ${clash}` });
+			}
+		}
+		for (const link of findDanglingLinks()) {
+			clean = false;
+			if (fix) {
+				await unlink(link);
+				report.push({ level: "ok", text: `${basename(link)}: removed dangling link` });
+			} else {
+				report.push({ level: "warning", text: `${basename(link)}: dangling link to ${readlinkSync(link)} (--fix removes it)` });
+			}
+		}
+		if (clean) report.push({ level: "ok", text: "No conflicts or dangling links" });
+		return report;
+	};
+
+	const showReport = async (ctx: ExtensionCommandContext, title: string, report: ReportLine[]) => {
+		if (!ctx.hasUI) {
+			const text = report.map((line) => (line.level === "heading" ? line.text : `  ${line.text}`)).join("\n");
+			const level = report.some((line) => line.level === "error") ? "error" : "info";
+			ctx.ui.notify(text, level);
+			return;
+		}
+		await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+			const component = new HarnessReportComponent(title, report, theme, tui, () => done());
+			return {
+				render: (w) => component.render(w),
+				invalidate: () => component.invalidate(),
+				handleInput: (data) => {
+					component.handleInput(data);
+					tui.requestRender();
+				},
+			};
+		}, {
+			overlay: true,
+			overlayOptions: {
+				width: 90,
+				anchor: "bottom-left",
+				offsetY: -8,
+				margin: { top: 2, right: 2, bottom: 4, left: 2 },
+			},
+		});
+	};
+
+	pi.registerCommand("harness", {
+		description: "Install, remove and check harness agents and chains: /harness install|remove|status|doctor [anthropic|personal|all]",
+		getArgumentCompletions: (prefix) => {
+			const words = prefix.trimStart().split(/\s+/);
+			if (words.length <= 1) {
+				const matches = ACTIONS.filter((action) => action.startsWith(words[0] ?? ""));
+				return matches.length > 0 ? matches.map((action) => ({ value: `${action} `, label: action })) : null;
+			}
+			const options = words[0] === "doctor" ? ["--fix"] : [...SET_NAMES, "all", ...(words[0] === "install" ? ["--force"] : [])];
+			const last = words[words.length - 1];
+			const base = words.slice(0, -1).join(" ");
+			const matches = options.filter((option) => option.startsWith(last) && !words.slice(1, -1).includes(option));
+			return matches.length > 0 ? matches.map((option) => ({ value: `${base} ${option}`, label: option })) : null;
+		},
+		handler: async (args, ctx) => {
+			const words = (args?.trim() || "status").split(/\s+/);
+			const action = words[0];
+			const flags = words.slice(1).filter((word) => word.startsWith("--"));
+			const names = words.slice(1).filter((word) => !word.startsWith("--"));
+
+			if (!ACTIONS.includes(action)) {
+				ctx.ui.notify(`Unknown action "${action}" (use ${ACTIONS.join(", ")})`, "error");
+				return;
+			}
+			const unknown = names.filter((name) => name !== "all" && !SET_NAMES.includes(name as SetName));
+			if (unknown.length > 0) {
+				ctx.ui.notify(`Unknown set "${unknown[0]}" (use ${SET_NAMES.join(", ")} or all)`, "error");
+				return;
+			}
+			const defaultSets: SetName[] = action === "install" || action === "remove" ? ["anthropic"] : SET_NAMES;
+			const sets = names.length === 0 ? defaultSets : names.includes("all") ? SET_NAMES : (names as SetName[]);
+
+			try {
+				if (action === "status") {
+					await showReport(ctx, "Harness status", status(sets));
+				} else if (action === "doctor") {
+					await showReport(ctx, "Harness doctor", await doctor(flags.includes("--fix")));
+				} else {
+					const { report, changed } = action === "install" ? await install(sets, flags.includes("--force")) : await remove(sets);
+					if (changed) report.push({ level: "info", text: "Reloading pi so the changes take effect" });
+					await showReport(ctx, `Harness ${action}`, report);
+					// Reloading ends this handler's runtime, so it has to come last
+					if (changed) await ctx.reload();
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Error: ${errorMessage}`, "error");
+			}
+		},
+	});
+}
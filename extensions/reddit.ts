@@ -2,19 +2,70 @@
  * Reddit extension - see the [new top hot rising] posts from a subreddit.
  *
  * Usage:
- *   /reddit subreddit [hot|new|top|rising] [limit]
+ *   /reddit [target] [hot|new|top|rising|controversial] [hour|day|week|month|year|all] [limit]
+ *   /reddit [target] search <query> [--sort relevance|hot|top|new|comments]
+ *   /reddit search <query>
+ *
+ *   target is a subreddit (rust, r/rust), a multireddit (rust+golang) or a
+ *   user's submissions (u/name). Options: --limit N, --time T, --sort S.
+ *
  *   /reddit programming
  *   /reddit peloton new 5
+ *   /reddit rust top week --limit 10
+ *   /reddit rust search async traits --time year
+ *
+ *   /reddit watch add <sub> [keyword...]          watch for new posts in the background
+ *   /reddit watch remove <sub> | list | interval <minutes>
+ *   /reddit inbox                                 show posts that arrived since last look
+ *   /reddit mute author|keyword|domain <value>    hide matching posts everywhere
+ *   /reddit unmute author|keyword|domain <value>
+ *   /reddit mute list
+ *   /reddit export [listing args] [--format markdown|json] [--fields a,b] [--comments N]
+ *
+ * Press Enter on a post to read its comment thread inside the overlay,
+ * `d` to see its full text and metadata, or `i` to insert it into the editor
+ * as context. Reaching the last post loads the next page. `/` filters the
+ * list by title, author and text, `s` cycles the sort order (score, age,
+ * comments) and `m` raises the minimum score (default `minScore` in
+ * ~/.pi/agent/reddit.json). `x` marks posts and `e` exports the marked (or
+ * all visible) posts, with any threads opened so far, to the working directory.
+ *
+ * The agent can read subreddits itself through the `reddit` tool.
+ *
+ * Listings are fetched from the JSON API, falling back to old.reddit.com and
+ * then the subreddit's RSS feed. Results are cached on disk; when every source
+ * fails the last cached listing is shown instead.
+ *
+ * With script-app credentials (REDDIT_CLIENT_ID / REDDIT_CLIENT_SECRET, plus
+ * optionally REDDIT_USERNAME / REDDIT_PASSWORD, or `api` in reddit.json) the
+ * JSON API is called through oauth.reddit.com. Requests respect Reddit's
+ * X-Ratelimit-* headers and retry 429/5xx responses with backoff. Base URLs
+ * are configurable, and REDDIT_FIXTURES_DIR replays recorded responses
+ * (REDDIT_RECORD_FIXTURES=1 records them).
  *
  */
 
-import type { ExtensionAPI, ExtensionContext, Theme } from "@mariozechner/pi-coding-agent";
-import { matchesKey, truncateToWidth, visibleWidth, type TUI } from "@mariozechner/pi-tui";
+import { StringEnum } from "@mariozechner/pi-ai";
+import type { ExtensionAPI, ExtensionCommandContext, ExtensionContext, Theme } from "@mariozechner/pi-coding-agent";
+import {
+    DEFAULT_MAX_BYTES,
+    DEFAULT_MAX_LINES,
+    formatSize,
+    getAgentDir,
+    getMarkdownTheme,
+    truncateHead,
+} from "@mariozechner/pi-coding-agent";
+import { Markdown, matchesKey, Text, truncateToWidth, visibleWidth, type AutocompleteItem, type TUI } from "@mariozechner/pi-tui";
+import { Type } from "@sinclair/typebox";
 import { spawn } from "child_process";
+import { readFileSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
 
 // Types for parsed Reddit JSON data
 interface RedditPost {
     id: string;
+    subreddit?: string;
     title: string;
     author: string;
     link: string;
@@ -22,18 +73,243 @@ interface RedditPost {
     updated: string;
     content: string;
     score: number;
+    // Metadata only the JSON API provides; absent for RSS and older cache entries
+    flair?: string;
+    nsfw?: boolean;
+    spoiler?: boolean;
+    isSelf?: boolean;
+    domain?: string;
+    url?: string;
+    mediaUrl?: string;
+    numComments?: number;
+    upvoteRatio?: number;
 }
 
 interface JSONParseResult {
     subreddit: string;
+    // Display name for listings that aren't a single subreddit, e.g. "u/spez"
+    label?: string;
     feedType: string;
     updated: string;
     posts: RedditPost[];
+    // Listing cursor for the next page, absent on the last page
+    after?: string;
+    // Posts dropped by the mute list
+    muted?: number;
+}
+
+// A single comment with its nested replies
+interface RedditComment {
+    id: string;
+    parentId: string | undefined;
+    author: string;
+    body: string;
+    published: string;
+    score: number;
+    depth: number;
+    replies: RedditComment[];
+    moreReplies: number;
+}
+
+interface RedditCommentThread {
+    postId: string;
+    comments: RedditComment[];
+    moreComments: number;
+}
+
+// A `{ kind, data }` thing from a Reddit Listing (t1 comment, t3 post, more stub, Listing)
+interface RedditChild {
+    kind: string;
+    data: Record<string, unknown>;
+}
+
+// What to list: a subreddit (or a+b multireddit), a user's submissions, or a search
+interface RedditQuery {
+    kind: "subreddit" | "user" | "search";
+    // Subreddit name(s), username, or the subreddit a search is scoped to ("all" for site-wide)
+    name: string;
+    // Listing sort, or the search sort for searches
+    feedType: string;
+    timeFilter?: string;
+    limit: number;
+    search?: string;
+}
+
+// Where a listing came from: one of the live sources, or the on-disk cache
+type RedditSource = "json" | "old-json" | "rss" | "cache";
+
+interface RedditFetchResult {
+    result: JSONParseResult;
+    source: RedditSource;
+    fetchedAt: string;
+    // True when every live source failed and an expired cache entry was used
+    stale: boolean;
+    // For cached listings, the live source they were originally fetched from
+    cachedFrom?: Exclude<RedditSource, "cache">;
+}
+
+interface RedditCacheEntry {
+    fetchedAt: string;
+    source: Exclude<RedditSource, "cache">;
+    result: JSONParseResult;
+}
+
+// A watched subreddit; new posts matching any keyword also trigger a notification
+interface RedditWatchEntry {
+    subreddit: string;
+    keywords: string[];
+}
+
+// Posts by these authors, mentioning these keywords or linking to these
+// domains are dropped while parsing
+interface RedditMuteList {
+    authors: string[];
+    keywords: string[];
+    domains: string[];
+}
+
+// User configuration, stored in ~/.pi/agent/reddit.json
+interface RedditConfig {
+    watch: {
+        intervalMinutes: number;
+        subreddits: RedditWatchEntry[];
+    };
+    mute: RedditMuteList;
+    // Initial minimum score in the overlay (m cycles it)
+    minScore: number;
+    export: RedditExportOptions;
+    // The file's own api block, saved back as is; see resolveApiConfig
+    api: Partial<RedditApiConfig>;
+}
+
+// Where and how requests are sent. Credentials, base URLs and fixtures can also
+// come from REDDIT_CLIENT_ID, REDDIT_CLIENT_SECRET, REDDIT_USERNAME,
+// REDDIT_PASSWORD, REDDIT_BASE_URL, REDDIT_OLD_BASE_URL, REDDIT_OAUTH_BASE_URL,
+// REDDIT_FIXTURES_DIR and REDDIT_RECORD_FIXTURES; those are never written back.
+interface RedditApiConfig {
+    baseUrl: string;
+    oldBaseUrl: string;
+    oauthBaseUrl: string;
+    userAgent: string;
+    // Script-app credentials; with username/password the password grant is used,
+    // otherwise app-only client credentials
+    clientId?: string;
+    clientSecret?: string;
+    username?: string;
+    password?: string;
+    // Serve responses from recorded files in this directory (REDDIT_FIXTURES_DIR)
+    fixturesDir?: string;
+    // Record live responses into fixturesDir instead of reading them
+    recordFixtures?: boolean;
+}
+
+/**
+ * Sends a request and returns the response. Defaults to the global fetch;
+ * replace it with setRedditTransport() to run against fixtures or a stand-in.
+ */
+export type RedditTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+type RedditExportFormat = (typeof EXPORT_FORMATS)[number];
+type RedditExportField = (typeof EXPORT_FIELDS)[number];
+
+// What /reddit export and the overlay's export key write
+interface RedditExportOptions {
+    format: RedditExportFormat;
+    fields: RedditExportField[];
+}
+
+type RedditSortMode = "listing" | "score" | "age" | "comments";
+
+// Poller bookkeeping: post ids already seen per subreddit, and unread posts
+interface RedditWatchState {
+    seen: Record<string, string[]>;
+    inbox: RedditPost[];
 }
 
 // Spinner frames for loading indicator (pi-style)
 const SPINNER_FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
 
+const USER_AGENT = "pi-reddit-extension/1.0";
+
+// Retry 429/5xx responses with exponential backoff (Retry-After wins when sent),
+// and wait out an exhausted rate-limit window when it resets soon enough
+const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+const FEED_TYPES = ["hot", "new", "top", "rising", "controversial"];
+const USER_FEED_TYPES = ["hot", "new", "top", "controversial"];
+const SEARCH_SORTS = ["relevance", "hot", "top", "new", "comments"];
+const TIME_FILTERS = ["hour", "day", "week", "month", "year", "all"];
+const MAX_LIMIT = 25;
+const RECENT_LIMIT = 10;
+
+// Listings younger than this are served from disk without hitting the network
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const CACHE_DIR = join(getAgentDir(), "cache", "reddit");
+const RECENT_PATH = join(CACHE_DIR, "recent.json");
+const CONFIG_PATH = join(getAgentDir(), "reddit.json");
+const WATCH_STATE_PATH = join(CACHE_DIR, "watch-state.json");
+
+// Watch poller limits: backoff doubles the interval after failures, up to the cap
+const DEFAULT_WATCH_INTERVAL_MINUTES = 10;
+const MAX_WATCH_BACKOFF_MS = 60 * 60 * 1000;
+const WATCH_SEEN_LIMIT = 500;
+const WATCH_INBOX_LIMIT = 100;
+
+// Overlay sort order and minimum-score steps, cycled with s and m
+const SORT_MODES: RedditSortMode[] = ["listing", "score", "age", "comments"];
+const MIN_SCORE_STEPS = [0, 10, 50, 100, 500, 1000];
+const MUTE_KINDS = ["author", "keyword", "domain"] as const;
+
+// Export formats and the post fields an export may include ("comments" adds
+// any fetched comment trees)
+const EXPORT_FORMATS = ["markdown", "json"] as const;
+const EXPORT_FIELDS = [
+    "title",
+    "subreddit",
+    "author",
+    "score",
+    "published",
+    "link",
+    "url",
+    "flair",
+    "numComments",
+    "content",
+    "comments",
+] as const;
+
+// How many comments to request per thread, and how deep to indent before flattening
+const COMMENT_LIMIT = 200;
+const MAX_INDENT_DEPTH = 8;
+
+// Per-item truncation for text handed to the LLM
+const TOOL_SELFTEXT_CHARS = 800;
+const TOOL_COMMENT_CHARS = 400;
+
+const RedditToolParams = Type.Object({
+    subreddit: Type.String({ description: "Subreddit name without the r/ prefix, e.g. 'rust', or several joined with '+'" }),
+    feed: Type.Optional(StringEnum(["hot", "new", "top", "rising", "controversial"] as const, {
+        description: "Listing to read (default: hot)",
+    })),
+    time: Type.Optional(StringEnum(["hour", "day", "week", "month", "year", "all"] as const, {
+        description: "Time window for the top and controversial feeds (default: day)",
+    })),
+    limit: Type.Optional(Type.Number({ description: "Number of posts, 1-25 (default: 10)" })),
+    comments: Type.Optional(Type.Number({ description: "Top comments to include per post, 0-10 (default: 0)" })),
+    after: Type.Optional(Type.String({ description: "Cursor from a previous result's 'Next page' line" })),
+});
+
+interface RedditToolDetails {
+    subreddit: string;
+    feedType: string;
+    postCount: number;
+    source: RedditSource;
+    fetchedAt: string;
+    truncated: boolean;
+}
+
 /**
  * Format relative time (e.g., "5h ago", "2d ago")
  */
@@ -66,10 +342,44 @@ function extractScore(content: string): number {
     return scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
 }
 
+/**
+ * Whether a post matches the mute list (author, keyword in title/selftext,
+ * or link domain including subdomains). Matching is case-insensitive.
+ */
+function isMuted(post: RedditPost, mute: RedditMuteList): boolean {
+    const author = post.author.toLowerCase();
+    if (mute.authors.some((a) => a.toLowerCase() === author)) return true;
+
+    const text = `${post.title}\n${post.content}`.toLowerCase();
+    if (mute.keywords.some((k) => text.includes(k.toLowerCase()))) return true;
+
+    let domain = post.domain?.toLowerCase();
+    if (!domain && post.url) {
+        try {
+            domain = new URL(post.url).hostname.toLowerCase();
+        } catch {
+            // Not a URL; nothing to match
+        }
+    }
+    return domain !== undefined && mute.domains.some((d) => {
+        const muted = d.toLowerCase();
+        return domain === muted || domain!.endsWith(`.${muted}`);
+    });
+}
+
+/**
+ * Drop muted posts from a parsed listing, counting them in `muted`
+ */
+function applyMuteList(result: JSONParseResult, mute: RedditMuteList | undefined): JSONParseResult {
+    if (!mute) return result;
+    const posts = result.posts.filter((post) => !isMuted(post, mute));
+    return { ...result, posts, muted: (result.muted || 0) + result.posts.length - posts.length };
+}
+
 /**
  * Parse Reddit JSON API response into structured data
  */
-function parseRedditJson(json: string, requestedFeedType: string): JSONParseResult | null {
+function parseRedditJson(json: string, requestedFeedType: string, mute?: RedditMuteList): JSONParseResult | null {
     try {
         const response = JSON.parse(json);
 
@@ -78,116 +388,2045 @@ function parseRedditJson(json: string, requestedFeedType: string): JSONParseResu
             throw new Error(`Reddit error: ${response.message || response.reason || `HTTP ${response.error}`}`);
         }
 
-        if (response.kind !== "Listing" || !response.data || !Array.isArray(response.data.children)) {
-            throw new Error("Invalid Reddit API response format");
+        if (response.kind !== "Listing" || !response.data || !Array.isArray(response.data.children)) {
+            throw new Error("Invalid Reddit API response format");
+        }
+
+        // Get subreddit from the first post
+        const firstPost = response.data.children[0]?.data;
+        const subreddit = firstPost?.subreddit || "unknown";
+
+        // Parse posts
+        const posts: RedditPost[] = response.data.children.map((child: any) => {
+            const postData = child.data;
+            const createdUtc = postData.created_utc * 1000; // Convert to milliseconds
+            const published = new Date(createdUtc).toISOString();
+
+            return {
+                id: postData.id,
+                subreddit: postData.subreddit,
+                title: postData.title,
+                author: postData.author,
+                link: `https://www.reddit.com${postData.permalink}`,
+                published,
+                updated: published,
+                content: postData.selftext || "",
+                score: postData.score || 0,
+                flair: postData.link_flair_text || undefined,
+                nsfw: Boolean(postData.over_18),
+                spoiler: Boolean(postData.spoiler),
+                isSelf: Boolean(postData.is_self),
+                domain: postData.domain,
+                url: postData.url_overridden_by_dest || postData.url,
+                mediaUrl: postData.media?.reddit_video?.fallback_url
+                    || (postData.post_hint === "image" ? postData.url : undefined),
+                numComments: postData.num_comments,
+                upvoteRatio: postData.upvote_ratio,
+            };
+        });
+
+        return applyMuteList({
+            subreddit,
+            feedType: requestedFeedType,
+            updated: new Date().toISOString(),
+            posts,
+            after: response.data.after || undefined,
+        }, mute);
+    } catch (error) {
+        console.error("Failed to parse Reddit JSON:", error);
+        return null;
+    }
+}
+
+/**
+ * Decode the XML/HTML entities Reddit uses in its Atom feed
+ */
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;|&#39;/g, "'")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&nbsp;/g, " ")
+        .replace(/&amp;/g, "&");
+}
+
+/**
+ * Strip the HTML Reddit wraps around RSS entry content, keeping readable text
+ */
+function htmlToText(html: string): string {
+    return decodeEntities(
+        html
+            .replace(/<br\s*\/?>/gi, "\n")
+            .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+            .replace(/<[^>]+>/g, ""),
+    )
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * Parse a subreddit Atom (.rss) feed into structured data, throwing if it
+ * isn't one so the caller can fall back to the cache.
+ * The feed has no vote counts, so score falls back to extractScore(), and no
+ * cursor, so a full page is assumed to continue after its last post.
+ */
+function parseRedditAtom(
+    xml: string,
+    requestedFeedType: string,
+    limit: number,
+    mute?: RedditMuteList,
+): JSONParseResult {
+    if (!/<feed[\s>]/.test(xml)) {
+        throw new Error("Invalid Reddit RSS response format");
+    }
+
+    const tag = (source: string, name: string): string | undefined => {
+        const match = source.match(new RegExp(`<${name}[^>]*>([\\s\\S]*?)</${name}>`));
+        return match ? match[1] : undefined;
+    };
+
+    const feedHeader = xml.split("<entry>")[0];
+    const subreddit = feedHeader.match(/<category[^>]*term="([^"]+)"/)?.[1] || "unknown";
+
+    const posts: RedditPost[] = [];
+    for (const match of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+        const entry = match[1];
+        const id = (tag(entry, "id") || "").replace(/^t3_/, "");
+        const published = tag(entry, "published") || tag(entry, "updated") || new Date().toISOString();
+        const content = htmlToText(decodeEntities(tag(entry, "content") || ""));
+
+        posts.push({
+            id,
+            subreddit: entry.match(/<category[^>]*term="([^"]+)"/)?.[1],
+            title: decodeEntities(tag(entry, "title") || ""),
+            author: (tag(tag(entry, "author") || "", "name") || "[deleted]").replace(/^\/u\//, ""),
+            link: entry.match(/<link[^>]*href="([^"]+)"/)?.[1] || "",
+            published: new Date(published).toISOString(),
+            updated: new Date(tag(entry, "updated") || published).toISOString(),
+            content,
+            score: extractScore(content),
+        });
+    }
+
+    const lastPost = posts[posts.length - 1];
+
+    // The cursor comes from the unfiltered page so muting can't end paging early
+    return applyMuteList({
+        subreddit,
+        feedType: requestedFeedType,
+        updated: new Date().toISOString(),
+        posts,
+        after: lastPost && posts.length >= limit ? `t3_${lastPost.id}` : undefined,
+    }, mute);
+}
+
+/**
+ * Whether Reddit honours the `t` time filter for this query
+ */
+function supportsTimeFilter(query: RedditQuery): boolean {
+    return query.kind === "search" || query.feedType === "top" || query.feedType === "controversial";
+}
+
+/**
+ * Human-readable name for a query, e.g. "r/rust", "u/spez" or 'search "x" in r/rust'
+ */
+function describeQuery(query: RedditQuery): string {
+    if (query.kind === "user") return `u/${query.name}`;
+    if (query.kind === "search") {
+        return `search "${query.search}"${query.name === "all" ? "" : ` in r/${query.name}`}`;
+    }
+    return `r/${query.name}`;
+}
+
+/**
+ * Display name for a fetched listing
+ */
+function formatListingName(result: JSONParseResult): string {
+    return result.label || `r/${result.subreddit}`;
+}
+
+function stripSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+/**
+ * Resolve after `ms`, or reject as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * File name a fixture is stored under, e.g.
+ * https://www.reddit.com/r/rust/hot.json?limit=5 -> www.reddit.com_r_rust_hot.json_limit_5
+ */
+function getFixtureName(url: string): string {
+    return url.replace(/^https?:\/\//, "").replace(/[^A-Za-z0-9.-]+/g, "_").slice(0, 200);
+}
+
+/**
+ * Transport that answers from recorded files; missing fixtures are a 404.
+ * Token requests get a placeholder token so OAuth settings can stay in place.
+ */
+function createFixtureTransport(dir: string): RedditTransport {
+    return async (url) => {
+        if (url.endsWith("/api/v1/access_token")) {
+            return new Response(JSON.stringify({ access_token: "fixture", expires_in: 3600 }), { status: 200 });
+        }
+        try {
+            return new Response(await readFile(join(dir, getFixtureName(url)), "utf8"), { status: 200 });
+        } catch {
+            return new Response("", { status: 404, statusText: `No fixture ${getFixtureName(url)}` });
+        }
+    };
+}
+
+/**
+ * Transport that passes requests through and saves successful GET responses as
+ * fixtures (never the token exchange, which carries credentials)
+ */
+function createRecordingTransport(dir: string, inner: RedditTransport): RedditTransport {
+    return async (url, init) => {
+        const response = await inner(url, init);
+        if (response.ok && (init.method ?? "GET") === "GET") {
+            const body = await response.text();
+            await mkdir(dir, { recursive: true });
+            await writeFile(join(dir, getFixtureName(url)), body, "utf8");
+            return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+        }
+        return response;
+    };
+}
+
+/**
+ * HTTP client for Reddit: optional OAuth against oauth.reddit.com, rate-limit
+ * tracking from X-Ratelimit-* headers, and retries with backoff on 429/5xx.
+ */
+class RedditClient {
+    private injectedTransport?: RedditTransport;
+    private api: RedditApiConfig = {
+        baseUrl: "https://www.reddit.com",
+        oldBaseUrl: "https://old.reddit.com",
+        oauthBaseUrl: "https://oauth.reddit.com",
+        userAgent: USER_AGENT,
+    };
+    private token?: { value: string; expiresAt: number; key: string };
+    private rateLimit?: { remaining: number; resetAt: number };
+
+    setTransport(transport: RedditTransport | undefined): void {
+        this.injectedTransport = transport;
+    }
+
+    configure(api: RedditApiConfig): void {
+        this.api = api;
+    }
+
+    /**
+     * Whether OAuth credentials are configured
+     */
+    get authenticated(): boolean {
+        return Boolean(this.api.clientId && this.api.clientSecret);
+    }
+
+    /**
+     * Base URL for a source: the JSON API goes through OAuth when credentials
+     * are configured
+     */
+    baseUrlFor(source: Exclude<RedditSource, "cache">): string {
+        if (source === "old-json") return this.api.oldBaseUrl;
+        if (source === "json" && this.authenticated) return this.api.oauthBaseUrl;
+        return this.api.baseUrl;
+    }
+
+    /**
+     * GET a URL and return the body. Requests to the OAuth base URL carry a
+     * bearer token; an exhausted rate limit is waited out before sending.
+     */
+    async get(url: string, signal?: AbortSignal): Promise<string> {
+        const useOAuth = this.authenticated && url.startsWith(this.api.oauthBaseUrl);
+
+        for (let attempt = 0; ; attempt++) {
+            await this.waitForRateLimit(signal);
+
+            const headers: Record<string, string> = { "User-Agent": this.getUserAgent() };
+            if (useOAuth) {
+                headers.Authorization = `bearer ${await this.getToken(signal)}`;
+            }
+
+            const response = await this.getTransport()(url, { signal, headers });
+            this.recordRateLimit(response.headers);
+
+            // An expired or revoked token: fetch a new one and try again once
+            if (response.status === 401 && useOAuth && attempt === 0) {
+                this.token = undefined;
+                continue;
+            }
+
+            const retryable = response.status === 429 || response.status >= 500;
+            if (retryable && attempt < MAX_RETRIES) {
+                const retryAfter = Number(response.headers.get("retry-after"));
+                const delay = retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_MS * 2 ** attempt;
+                await sleep(Math.min(MAX_RETRY_DELAY_MS, delay), signal);
+                continue;
+            }
+
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            return response.text();
+        }
+    }
+
+    private getTransport(): RedditTransport {
+        const transport = this.injectedTransport ?? ((url, init) => fetch(url, init));
+        if (!this.api.fixturesDir) return transport;
+        return this.api.recordFixtures
+            ? createRecordingTransport(this.api.fixturesDir, transport)
+            : createFixtureTransport(this.api.fixturesDir);
+    }
+
+    private getUserAgent(): string {
+        return this.api.username && this.api.userAgent === USER_AGENT
+            ? `${USER_AGENT} (by /u/${this.api.username})`
+            : this.api.userAgent;
+    }
+
+    /**
+     * Get an access token, reusing the current one until a minute before it expires
+     */
+    private async getToken(signal?: AbortSignal): Promise<string> {
+        const { clientId, clientSecret, username, password } = this.api;
+        const key = `${clientId}:${username || ""}`;
+        if (this.token && this.token.key === key && Date.now() < this.token.expiresAt) {
+            return this.token.value;
+        }
+
+        const body = username && password
+            ? new URLSearchParams({ grant_type: "password", username, password })
+            : new URLSearchParams({ grant_type: "client_credentials" });
+        const response = await this.getTransport()(`${this.api.baseUrl}/api/v1/access_token`, {
+            method: "POST",
+            signal,
+            headers: {
+                "User-Agent": this.getUserAgent(),
+                "Authorization": `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString("base64")}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: body.toString(),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Reddit OAuth failed: HTTP ${response.status}`);
+        }
+        const json = JSON.parse(await response.text());
+        if (!json.access_token) {
+            throw new Error(`Reddit OAuth failed: ${json.error || "no access token"}`);
+        }
+
+        this.token = {
+            value: json.access_token,
+            expiresAt: Date.now() + (Number(json.expires_in) || 3600) * 1000 - 60 * 1000,
+            key,
+        };
+        return this.token.value;
+    }
+
+    /**
+     * Remember the remaining request budget and when it resets
+     */
+    private recordRateLimit(headers: Headers): void {
+        const remaining = headers.get("x-ratelimit-remaining");
+        const reset = headers.get("x-ratelimit-reset");
+        if (remaining === null || reset === null) return;
+        this.rateLimit = {
+            remaining: Number(remaining),
+            resetAt: Date.now() + Number(reset) * 1000,
+        };
+    }
+
+    /**
+     * Wait for the rate-limit window to reset when no requests are left.
+     * Windows that reset too far in the future fail fast instead.
+     */
+    private async waitForRateLimit(signal?: AbortSignal): Promise<void> {
+        if (!this.rateLimit || this.rateLimit.remaining >= 1) return;
+        const wait = this.rateLimit.resetAt - Date.now();
+        if (wait <= 0) {
+            this.rateLimit = undefined;
+            return;
+        }
+        if (wait > MAX_RATE_LIMIT_WAIT_MS) {
+            throw new Error(`Rate limited by Reddit; resets in ${Math.ceil(wait / 1000)}s`);
+        }
+        await sleep(wait, signal);
+        this.rateLimit = undefined;
+    }
+}
+
+// Shared by the command, the tool and the watcher so they share one rate limit
+const redditClient = new RedditClient();
+
+/**
+ * Replace the transport used for all Reddit requests (undefined restores fetch),
+ * e.g. to run the extension against a local stand-in server or recorded fixtures
+ */
+export function setRedditTransport(transport: RedditTransport | undefined): void {
+    redditClient.setTransport(transport);
+}
+
+/**
+ * The shared client, configured from the config file and environment
+ */
+async function getRedditClient(config?: RedditConfig): Promise<RedditClient> {
+    redditClient.configure(resolveApiConfig((config ?? await loadConfig()).api));
+    return redditClient;
+}
+
+/**
+ * Build a listing URL under a base URL and format
+ */
+function buildListingUrl(
+    baseUrl: string,
+    query: RedditQuery,
+    extension: "json" | "rss",
+    after: string | undefined,
+): string {
+    const params = new URLSearchParams({ limit: String(query.limit) });
+    let path: string;
+
+    if (query.kind === "user") {
+        path = `/user/${query.name}/submitted`;
+        params.set("sort", query.feedType);
+    } else if (query.kind === "search") {
+        path = query.name === "all" ? "/search" : `/r/${query.name}/search`;
+        params.set("q", query.search || "");
+        params.set("sort", query.feedType);
+        if (query.name !== "all") params.set("restrict_sr", "1");
+    } else {
+        path = `/r/${query.name}/${query.feedType}`;
+    }
+
+    if (query.timeFilter && supportsTimeFilter(query)) {
+        params.set("t", query.timeFilter);
+    }
+    if (after) {
+        params.set("after", after);
+    }
+    return `${baseUrl}${path}.${extension}?${params}`;
+}
+
+/**
+ * Fetch and parse a listing from one source, throwing on any failure
+ */
+async function fetchListingFrom(
+    client: RedditClient,
+    source: Exclude<RedditSource, "cache">,
+    query: RedditQuery,
+    after: string | undefined,
+    mute: RedditMuteList,
+    signal?: AbortSignal
+): Promise<JSONParseResult> {
+    const url = buildListingUrl(client.baseUrlFor(source), query, source === "rss" ? "rss" : "json", after);
+    const body = await client.get(url, signal);
+    const parsed = source === "rss"
+        ? parseRedditAtom(body, query.feedType, query.limit, mute)
+        : parseRedditJson(body, query.feedType, mute);
+
+    if (!parsed || (parsed.posts.length === 0 && !parsed.muted)) {
+        throw new Error(`No posts found in ${describeQuery(query)}`);
+    }
+
+    // The parsers name the listing after its first post; multireddits, users
+    // and searches need the query's own name instead
+    if (query.kind !== "subreddit") {
+        parsed.label = describeQuery(query);
+    } else if (query.name.includes("+") || parsed.subreddit === "unknown") {
+        parsed.subreddit = query.name;
+    }
+
+    return parsed;
+}
+
+/**
+ * Cache file path for a query (target, feed and time filter)
+ */
+function getCachePath(query: RedditQuery): string {
+    const key = [
+        query.kind,
+        query.name,
+        query.feedType,
+        supportsTimeFilter(query) ? query.timeFilter || "day" : "-",
+        query.search || "",
+    ]
+        .join("_")
+        .toLowerCase()
+        .replace(/[^a-z0-9_+-]/g, "_")
+        .slice(0, 120);
+    return join(CACHE_DIR, `${key}.json`);
+}
+
+async function readCache(path: string): Promise<RedditCacheEntry | undefined> {
+    try {
+        return JSON.parse(await readFile(path, "utf8")) as RedditCacheEntry;
+    } catch {
+        return undefined;
+    }
+}
+
+async function writeCache(path: string, entry: RedditCacheEntry): Promise<void> {
+    try {
+        await mkdir(CACHE_DIR, { recursive: true });
+        await writeFile(path, JSON.stringify(entry), "utf8");
+    } catch {
+        // Caching is best-effort; a read-only agent dir shouldn't break fetching
+    }
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * Load the user config, filling in defaults for anything missing or malformed
+ */
+async function loadConfig(): Promise<RedditConfig> {
+    let raw: Record<string, unknown> = {};
+    try {
+        raw = asRecord(JSON.parse(await readFile(CONFIG_PATH, "utf8")));
+    } catch {
+        // Missing or unreadable config: use defaults
+    }
+    const watch = asRecord(raw.watch);
+    const mute = asRecord(raw.mute);
+    const exportOptions = asRecord(raw.export);
+    const intervalMinutes = watch.intervalMinutes;
+    const minScore = raw.minScore;
+    return {
+        ...raw,
+        watch: {
+            intervalMinutes: typeof intervalMinutes === "number" && Number.isFinite(intervalMinutes) && intervalMinutes > 0
+                ? intervalMinutes
+                : DEFAULT_WATCH_INTERVAL_MINUTES,
+            subreddits: (Array.isArray(watch.subreddits) ? watch.subreddits : []).flatMap((item) => {
+                const entry = asRecord(item);
+                return typeof entry.subreddit === "string"
+                    ? [{ subreddit: entry.subreddit, keywords: stringList(entry.keywords) }]
+                    : [];
+            }),
+        },
+        mute: {
+            authors: stringList(mute.authors),
+            keywords: stringList(mute.keywords),
+            domains: stringList(mute.domains),
+        },
+        minScore: typeof minScore === "number" && Number.isFinite(minScore) && minScore > 0 ? minScore : 0,
+        api: asRecord(raw.api) as Partial<RedditApiConfig>,
+        export: {
+            format: EXPORT_FORMATS.find((format) => format === exportOptions.format) ?? "markdown",
+            fields: Array.isArray(exportOptions.fields)
+                ? exportOptions.fields.filter(
+                    (f): f is RedditExportField => typeof f === "string" && EXPORT_FIELDS.includes(f as RedditExportField),
+                )
+                : [...EXPORT_FIELDS],
+        },
+    };
+}
+
+async function saveConfig(config: RedditConfig): Promise<void> {
+    const { api, ...rest } = config;
+    await mkdir(getAgentDir(), { recursive: true });
+    await writeFile(CONFIG_PATH, JSON.stringify(Object.keys(api).length > 0 ? config : rest, null, 2) + "\n", "utf8");
+}
+
+/**
+ * "1", "true", "yes" and "on" are true, "0", "false", "no", "off" and "" false;
+ * anything else (or unset) falls back
+ */
+function parseFlag(value: string | undefined, fallback: boolean): boolean {
+    const flag = value?.trim().toLowerCase();
+    if (flag === undefined) return fallback;
+    if (["1", "true", "yes", "on"].includes(flag)) return true;
+    if (["0", "false", "no", "off", ""].includes(flag)) return false;
+    return fallback;
+}
+
+/**
+ * The api settings in effect: environment variables over the config file over
+ * defaults. Resolved on every use so env-only values never reach the file
+ */
+function resolveApiConfig(api: Partial<RedditApiConfig>): RedditApiConfig {
+    const env = process.env;
+    return {
+        baseUrl: stripSlash(env.REDDIT_BASE_URL || api.baseUrl || "https://www.reddit.com"),
+        oldBaseUrl: stripSlash(env.REDDIT_OLD_BASE_URL || api.oldBaseUrl || "https://old.reddit.com"),
+        oauthBaseUrl: stripSlash(env.REDDIT_OAUTH_BASE_URL || api.oauthBaseUrl || "https://oauth.reddit.com"),
+        userAgent: api.userAgent || USER_AGENT,
+        clientId: env.REDDIT_CLIENT_ID || api.clientId,
+        clientSecret: env.REDDIT_CLIENT_SECRET || api.clientSecret,
+        username: env.REDDIT_USERNAME || api.username,
+        password: env.REDDIT_PASSWORD || api.password,
+        fixturesDir: env.REDDIT_FIXTURES_DIR || api.fixturesDir,
+        recordFixtures: parseFlag(env.REDDIT_RECORD_FIXTURES, api.recordFixtures === true),
+    };
+}
+
+/**
+ * The first `limit` posts of a cached listing. When posts are cut off, the
+ * cursor moves back to the last kept post so the next page starts right after it
+ */
+function limitListing(result: JSONParseResult, limit: number): JSONParseResult {
+    if (result.posts.length <= limit) {
+        return result;
+    }
+    const posts = result.posts.slice(0, limit);
+    return { ...result, posts, after: `t3_${posts[posts.length - 1].id}` };
+}
+
+/**
+ * Fetch Reddit posts, trying each source in turn (JSON API, old.reddit JSON,
+ * RSS feed). Fresh cache entries short-circuit the network; if every source
+ * fails, an expired cache entry is returned with `stale: true`. Only the first
+ * page of a listing is cached; pages requested with `after` always go live.
+ * Posts on the configured mute list are dropped, live or cached.
+ */
+async function fetchRedditPosts(
+    query: RedditQuery,
+    after?: string,
+    signal?: AbortSignal
+): Promise<RedditFetchResult> {
+    const config = await loadConfig();
+    const { mute } = config;
+    const client = await getRedditClient(config);
+    const cachePath = getCachePath(query);
+    const cached = after ? undefined : await readCache(cachePath);
+    const cacheCoversLimit = cached !== undefined
+        && cached.result.posts.length + (cached.result.muted || 0) >= query.limit;
+
+    // Cached listings were muted when fetched; apply mutes added since then
+    if (cached) {
+        cached.result = applyMuteList(cached.result, mute);
+    }
+
+    if (cached && cacheCoversLimit && Date.now() - new Date(cached.fetchedAt).getTime() < CACHE_TTL_MS) {
+        return {
+            result: limitListing(cached.result, query.limit),
+            source: "cache",
+            fetchedAt: cached.fetchedAt,
+            stale: false,
+            cachedFrom: cached.source,
+        };
+    }
+
+    const errors: string[] = [];
+    for (const source of ["json", "old-json", "rss"] as const) {
+        try {
+            const result = await fetchListingFrom(client, source, query, after, mute, signal);
+            const fetchedAt = new Date().toISOString();
+            if (!after) await writeCache(cachePath, { fetchedAt, source, result });
+            return { result, source, fetchedAt, stale: false };
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    if (cached) {
+        return {
+            result: limitListing(cached.result, query.limit),
+            source: "cache",
+            fetchedAt: cached.fetchedAt,
+            stale: true,
+            cachedFrom: cached.source,
+        };
+    }
+
+    throw new Error(`All sources failed (${errors.join("; ")})`);
+}
+
+/**
+ * Describe where a listing came from, e.g. "RSS" or "CACHE of JSON, 2h ago"
+ */
+function describeSource(fetchResult: RedditFetchResult): string {
+    if (fetchResult.source === "cache") {
+        const origin = fetchResult.cachedFrom ? ` of ${fetchResult.cachedFrom.toUpperCase()}` : "";
+        return `CACHE${origin}, ${formatRelativeTime(fetchResult.fetchedAt)}`;
+    }
+    return fetchResult.source.toUpperCase();
+}
+
+function isRedditChild(value: unknown): value is RedditChild {
+    if (!value || typeof value !== "object") return false;
+    const { kind, data } = value as Record<string, unknown>;
+    return typeof kind === "string" && !!data && typeof data === "object";
+}
+
+function stringField(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+function numberField(value: unknown): number {
+    return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * The children of a Listing, if `value` is one (a comment's `replies` is "" when it has none)
+ */
+function listingChildren(value: unknown): unknown[] | undefined {
+    if (!isRedditChild(value)) return undefined;
+    return Array.isArray(value.data.children) ? value.data.children : undefined;
+}
+
+/**
+ * Parse a comment Listing's children into a comment tree.
+ * "more" stubs are not expanded, only counted on their parent.
+ */
+function parseCommentChildren(children: unknown[], depth: number): { comments: RedditComment[]; more: number } {
+    const comments: RedditComment[] = [];
+    let more = 0;
+
+    for (const child of children) {
+        if (!isRedditChild(child)) continue;
+        const data = child.data;
+        if (child.kind === "more") {
+            more += numberField(data.count) || (Array.isArray(data.children) ? data.children.length : 0);
+            continue;
+        }
+        if (child.kind !== "t1") continue;
+
+        const replies = listingChildren(data.replies);
+        const nested = replies ? parseCommentChildren(replies, depth + 1) : { comments: [], more: 0 };
+        const parentId = stringField(data.parent_id);
+
+        comments.push({
+            id: stringField(data.id) || "",
+            parentId: parentId?.startsWith("t1_") ? parentId.slice(3) : undefined,
+            author: stringField(data.author) || "[deleted]",
+            body: stringField(data.body) || "",
+            published: new Date(numberField(data.created_utc) * 1000).toISOString(),
+            score: numberField(data.score),
+            depth,
+            replies: nested.comments,
+            moreReplies: nested.more,
+        });
+    }
+
+    return { comments, more };
+}
+
+/**
+ * Parse Reddit comments JSON (a [post, comments] pair of Listings) into a
+ * comment tree, throwing a descriptive error for anything else
+ */
+function parseRedditComments(json: string, postId: string): RedditCommentThread {
+    let response: unknown;
+    try {
+        response = JSON.parse(json);
+    } catch {
+        throw new Error("Reddit returned comments that aren't valid JSON");
+    }
+
+    if (!Array.isArray(response)) {
+        const error = response && typeof response === "object" ? (response as Record<string, unknown>) : {};
+        if (error.reason || error.error) {
+            throw new Error(`Reddit error: ${stringField(error.message) || stringField(error.reason) || `HTTP ${error.error}`}`);
+        }
+        throw new Error("Invalid Reddit comments response format");
+    }
+
+    const listing = response[1];
+    const children = isRedditChild(listing) && listing.kind === "Listing" ? listingChildren(listing) : undefined;
+    if (!children) {
+        throw new Error("Invalid Reddit comments response format");
+    }
+
+    const { comments, more } = parseCommentChildren(children, 0);
+    return { postId, comments, moreComments: more };
+}
+
+/**
+ * Fetch the comment tree for a post using JSON API
+ */
+async function fetchRedditComments(postId: string, limit: number, signal?: AbortSignal): Promise<RedditCommentThread> {
+    const client = await getRedditClient();
+    const jsonUrl = `${client.baseUrlFor("json")}/comments/${postId}.json?limit=${limit}&raw_json=1`;
+    return parseRedditComments(await client.get(jsonUrl, signal), postId);
+}
+
+/**
+ * Shorten text to a character budget, collapsing whitespace
+ */
+function clipText(text: string, maxChars: number): string {
+    const flat = text.replace(/\s+/g, " ").trim();
+    return flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat;
+}
+
+/**
+ * Format a single post as plain text context for the conversation
+ */
+function formatPostForContext(post: RedditPost, result: JSONParseResult): string {
+    const lines = [
+        `Reddit post from ${post.subreddit ? `r/${post.subreddit}` : formatListingName(result)}: "${post.title}"`,
+        `Link: ${post.link}`,
+        `Posted by u/${post.author} · ${formatRelativeTime(post.published)} · ${post.score} points`,
+    ];
+    if (post.url && !post.isSelf && post.url !== post.link) {
+        lines.splice(2, 0, `URL: ${post.url}`);
+    }
+    if (post.content.trim()) {
+        lines.push("", post.content.trim());
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Format a listing (and optionally its top comments) as structured text for the LLM
+ */
+function formatPostsForTool(
+    result: JSONParseResult,
+    threads: Map<string, RedditCommentThread>,
+    commentsPerPost: number,
+    threadErrors: Map<string, string> = new Map(),
+): string {
+    const lines: string[] = [`${formatListingName(result)} · ${result.feedType} · ${result.posts.length} posts`, ""];
+
+    result.posts.forEach((post, i) => {
+        lines.push(`${i + 1}. ${post.title}`);
+        const where = post.subreddit && post.subreddit !== result.subreddit ? `r/${post.subreddit} · ` : "";
+        const comments = post.numComments !== undefined ? ` · ${post.numComments} comments` : "";
+        const flair = post.flair ? ` · [${post.flair}]` : "";
+        lines.push(`   ${where}u/${post.author} · ${formatRelativeTime(post.published)} · ${post.score} points${comments}${flair} · id ${post.id}`);
+        lines.push(`   ${post.link}`);
+        if (post.url && !post.isSelf && post.url !== post.link) {
+            lines.push(`   Links to: ${post.url}`);
+        }
+        if (post.content.trim()) {
+            lines.push(`   ${clipText(post.content, TOOL_SELFTEXT_CHARS)}`);
+        }
+
+        const thread = threads.get(post.id);
+        const threadError = threadErrors.get(post.id);
+        if (threadError) {
+            lines.push(`   [comments unavailable: ${threadError}]`);
+        } else if (thread && commentsPerPost > 0) {
+            const top = thread.comments.slice(0, commentsPerPost);
+            lines.push(top.length ? "   Top comments:" : "   No comments yet.");
+            for (const comment of top) {
+                lines.push(`   - u/${comment.author} (${comment.score} points): ${clipText(comment.body, TOOL_COMMENT_CHARS)}`);
+            }
+        }
+        lines.push("");
+    });
+
+    if (result.after) {
+        lines.push(`Next page: after=${result.after}`);
+    }
+
+    return lines.join("\n").trimEnd();
+}
+
+/**
+ * Count the comments in a thread, replies included
+ */
+function countComments(comments: RedditComment[]): number {
+    return comments.reduce((total, comment) => total + 1 + countComments(comment.replies), 0);
+}
+
+/**
+ * Render a comment tree as a nested Markdown list
+ */
+function formatCommentsMarkdown(comments: RedditComment[], depth: number = 0): string[] {
+    const indent = "  ".repeat(depth);
+    const lines: string[] = [];
+    for (const comment of comments) {
+        lines.push(`${indent}- **u/${comment.author}** · ${comment.score} points · ${comment.published}`);
+        for (const line of comment.body.trim().split("\n")) {
+            lines.push(line.trim() ? `${indent}  ${line}` : "");
+        }
+        lines.push(...formatCommentsMarkdown(comment.replies, depth + 1));
+        if (comment.moreReplies > 0) {
+            lines.push(`${indent}  - _${comment.moreReplies} more replies_`);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Markdown digest of a listing: one section per post with the chosen fields,
+ * followed by its comment tree when one was fetched
+ */
+function formatExportMarkdown(
+    result: JSONParseResult,
+    threads: Map<string, RedditCommentThread>,
+    fields: RedditExportField[],
+): string {
+    const has = (field: RedditExportField) => fields.includes(field);
+    const lines = [
+        `# ${formatListingName(result)} · ${result.feedType}`,
+        "",
+        `_${result.posts.length} posts, exported ${new Date().toISOString()}_`,
+        "",
+    ];
+
+    result.posts.forEach((post, i) => {
+        lines.push(`## ${i + 1}. ${has("title") ? post.title : post.id}`, "");
+
+        const meta: string[] = [];
+        if (has("subreddit") && post.subreddit) meta.push(`- **Subreddit:** r/${post.subreddit}`);
+        if (has("author")) meta.push(`- **Author:** u/${post.author}`);
+        if (has("score")) meta.push(`- **Score:** ${post.score}`);
+        if (has("numComments") && post.numComments !== undefined) meta.push(`- **Comments:** ${post.numComments}`);
+        if (has("published")) meta.push(`- **Posted:** ${post.published}`);
+        if (has("flair") && post.flair) meta.push(`- **Flair:** ${post.flair}`);
+        if (has("link")) meta.push(`- **Link:** ${post.link}`);
+        if (has("url") && post.url && !post.isSelf && post.url !== post.link) meta.push(`- **URL:** ${post.url}`);
+        if (meta.length) lines.push(...meta, "");
+
+        if (has("content") && post.content.trim()) {
+            lines.push(post.content.trim(), "");
+        }
+
+        const thread = threads.get(post.id);
+        if (has("comments") && thread) {
+            lines.push("### Comments", "");
+            lines.push(...(thread.comments.length ? formatCommentsMarkdown(thread.comments) : ["_No comments._"]));
+            if (thread.moreComments > 0) {
+                lines.push(`- _${thread.moreComments} more comments_`);
+            }
+            lines.push("");
+        }
+    });
+
+    return lines.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * JSON export: the listing with each post narrowed to the chosen fields (id is
+ * always kept) and its comment tree under `comments` when one was fetched
+ */
+function formatExportJson(
+    result: JSONParseResult,
+    threads: Map<string, RedditCommentThread>,
+    fields: RedditExportField[],
+): string {
+    const posts = result.posts.map((post) => {
+        const exported: Record<string, unknown> = { id: post.id };
+        for (const field of fields) {
+            if (field !== "comments") exported[field] = post[field];
+        }
+        const thread = threads.get(post.id);
+        if (fields.includes("comments") && thread) {
+            exported.comments = thread.comments;
+            exported.moreComments = thread.moreComments;
+        }
+        return exported;
+    });
+
+    return JSON.stringify({ ...result, exportedAt: new Date().toISOString(), posts }, null, 2) + "\n";
+}
+
+/**
+ * Write a listing to the working directory, e.g. reddit-r-rust-hot-2026-01-31T12-00-00.md.
+ * Returns the path written.
+ */
+async function exportListing(
+    cwd: string,
+    result: JSONParseResult,
+    threads: Map<string, RedditCommentThread>,
+    options: RedditExportOptions,
+): Promise<string> {
+    const slug = `${formatListingName(result)}-${result.feedType}`
+        .toLowerCase()
+        .replace(/[^a-z0-9+]+/g, "-")
+        .replace(/^-|-$/g, "");
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+    const extension = options.format === "json" ? "json" : "md";
+    const path = join(cwd, `reddit-${slug}-${stamp}.${extension}`);
+
+    const content = options.format === "json"
+        ? formatExportJson(result, threads, options.fields)
+        : formatExportMarkdown(result, threads, options.fields);
+    await writeFile(path, content, "utf8");
+    return path;
+}
+
+/**
+ * Describe a finished export for the notification
+ */
+function describeExport(path: string, result: JSONParseResult, threads: Map<string, RedditCommentThread>): string {
+    const comments = result.posts.reduce((total, post) => {
+        const thread = threads.get(post.id);
+        return total + (thread ? countComments(thread.comments) : 0);
+    }, 0);
+    const withComments = comments > 0 ? ` and ${comments} comments` : "";
+    return `Exported ${result.posts.length} posts${withComments} to ${path}`;
+}
+
+/**
+ * Split arguments on whitespace, keeping "quoted phrases" together
+ */
+function tokenizeArgs(args: string): string[] {
+    return (args.match(/"[^"]*"|'[^']*'|\S+/g) || []).map((token) => token.replace(/^(["'])(.*)\1$/, "$2"));
+}
+
+/**
+ * Parse /reddit arguments into a query. Throws with a message meant for the
+ * user when the arguments don't make sense.
+ */
+function parseRedditArgs(args: string): RedditQuery {
+    const positional: string[] = [];
+    const options: { limit?: string; time?: string; sort?: string } = {};
+    const tokens = tokenizeArgs(args);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (!token.startsWith("--")) {
+            positional.push(token);
+            continue;
+        }
+        const [flag, inlineValue] = token.slice(2).split("=");
+        if (flag !== "limit" && flag !== "time" && flag !== "sort") {
+            throw new Error(`Unknown option --${flag}. Options: --limit N, --time ${TIME_FILTERS.join("|")}, --sort S`);
+        }
+        const value = inlineValue ?? tokens[++i];
+        if (!value || value.startsWith("--")) {
+            throw new Error(`--${flag} needs a value`);
+        }
+        options[flag] = value.toLowerCase();
+    }
+
+    let query: RedditQuery;
+    let rest: string[];
+
+    if (positional[0]?.toLowerCase() === "search") {
+        query = { kind: "search", name: "all", feedType: "relevance", limit: 5, search: positional.slice(1).join(" ") };
+        rest = [];
+    } else {
+        const target = positional[0] || "programming";
+        const user = target.match(/^\/?u(?:ser)?\/([A-Za-z0-9_-]+)$/i);
+        if (user) {
+            query = { kind: "user", name: user[1], feedType: "new", limit: 5 };
+        } else {
+            const name = target.replace(/^\/?r\//i, "");
+            if (!name.split("+").every((part) => /^[A-Za-z0-9_]{2,21}$/.test(part))) {
+                throw new Error(`Invalid subreddit "${target}". Use a name like rust, r/rust, rust+golang or u/name`);
+            }
+            query = { kind: "subreddit", name, feedType: "hot", limit: 5 };
+        }
+        rest = positional.slice(1);
+
+        if (rest[0]?.toLowerCase() === "search") {
+            if (query.kind === "user") {
+                throw new Error("Search can only be scoped to a subreddit, not a user");
+            }
+            query = { ...query, kind: "search", feedType: "relevance", search: rest.slice(1).join(" ") };
+            rest = [];
+        }
+    }
+
+    // Remaining positionals: feed, time filter and limit, in any order
+    const feeds = query.kind === "user" ? USER_FEED_TYPES : FEED_TYPES;
+    for (const token of rest) {
+        const lower = token.toLowerCase();
+        if (feeds.includes(lower)) {
+            query.feedType = lower;
+        } else if (TIME_FILTERS.includes(lower)) {
+            options.time = lower;
+        } else if (/^\d+$/.test(token)) {
+            options.limit = token;
+        } else if (lower === "rising" && query.kind === "user") {
+            throw new Error(`User listings support ${USER_FEED_TYPES.join(", ")}`);
+        } else {
+            throw new Error(
+                `Unknown argument "${token}". Expected a feed (${feeds.join(", ")}), time filter (${TIME_FILTERS.join(", ")}) or limit`
+            );
+        }
+    }
+
+    if (options.sort) {
+        const sorts = query.kind === "search" ? SEARCH_SORTS : feeds;
+        if (!sorts.includes(options.sort)) {
+            throw new Error(`Unknown sort "${options.sort}". Use ${sorts.join(", ")}`);
+        }
+        query.feedType = options.sort;
+    }
+
+    if (options.limit !== undefined) {
+        const limit = Number(options.limit);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+            throw new Error(`Limit must be a whole number between 1 and ${MAX_LIMIT}`);
+        }
+        query.limit = limit;
+    }
+
+    if (options.time) {
+        if (!TIME_FILTERS.includes(options.time)) {
+            throw new Error(`Unknown time filter "${options.time}". Use ${TIME_FILTERS.join(", ")}`);
+        }
+        query.timeFilter = options.time;
+        if (!supportsTimeFilter(query)) {
+            throw new Error(`Time filters only apply to top, controversial and search (got ${query.feedType})`);
+        }
+    }
+
+    if (query.kind === "search" && !query.search?.trim()) {
+        throw new Error("Search needs a query, e.g. /reddit rust search async traits");
+    }
+
+    return query;
+}
+
+/**
+ * Parse /reddit export arguments: the usual listing arguments plus
+ * --format markdown|json, --fields a,b,c and --comments N (comments fetched per post)
+ */
+function parseExportArgs(
+    args: string,
+    defaults: RedditExportOptions,
+): { query: RedditQuery; options: RedditExportOptions; comments: number } {
+    const options = { ...defaults };
+    let comments = 0;
+    const listingTokens: string[] = [];
+    const tokens = tokenizeArgs(args);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const [flag, inlineValue] = tokens[i].split("=");
+        if (flag !== "--format" && flag !== "--fields" && flag !== "--comments") {
+            listingTokens.push(/\s/.test(tokens[i]) ? `"${tokens[i]}"` : tokens[i]);
+            continue;
+        }
+        const value = inlineValue ?? tokens[++i];
+        if (!value || value.startsWith("--")) {
+            throw new Error(`${flag} needs a value`);
+        }
+
+        if (flag === "--format") {
+            const format = value.toLowerCase() === "md" ? "markdown" : value.toLowerCase();
+            if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+                throw new Error(`Invalid format "${value}". Use ${EXPORT_FORMATS.join(" or ")}`);
+            }
+            options.format = format as RedditExportFormat;
+        } else if (flag === "--fields") {
+            const fields = value.split(",").map((f) => f.trim()).filter(Boolean);
+            const unknown = fields.find((f) => !(EXPORT_FIELDS as readonly string[]).includes(f));
+            if (unknown) {
+                throw new Error(`Unknown field "${unknown}". Fields: ${EXPORT_FIELDS.join(", ")}`);
+            }
+            options.fields = fields as RedditExportField[];
+        } else {
+            comments = Number(value);
+            if (!Number.isInteger(comments) || comments < 0 || comments > COMMENT_LIMIT) {
+                throw new Error(`--comments must be a number from 0 to ${COMMENT_LIMIT}`);
+            }
+        }
+    }
+
+    return { query: parseRedditArgs(listingTokens.join(" ")), options, comments };
+}
+
+/**
+ * Suggest the next /reddit argument. The editor replaces the whole argument
+ * text with the chosen value, so each value carries the preceding tokens.
+ */
+function getRedditArgumentCompletions(argumentPrefix: string, recentTargets: string[]): AutocompleteItem[] | null {
+    const tokens = argumentPrefix.split(/\s+/);
+    const current = tokens[tokens.length - 1];
+    const allPrevious = tokens.slice(0, -1).filter(Boolean);
+    // /reddit export takes the same listing arguments as /reddit, plus its own options
+    const exporting = allPrevious[0]?.toLowerCase() === "export";
+    const previous = exporting ? allPrevious.slice(1) : allPrevious;
+    const before = argumentPrefix.slice(0, argumentPrefix.length - current.length);
+    const lastToken = allPrevious[allPrevious.length - 1]?.toLowerCase();
+
+    let candidates: { value: string; description?: string }[];
+
+    if (current.startsWith("--")) {
+        candidates = [
+            { value: "--limit", description: `Number of posts (1-${MAX_LIMIT})` },
+            { value: "--time", description: TIME_FILTERS.join(", ") },
+            { value: "--sort", description: "Feed, or search sort" },
+        ];
+        if (exporting) {
+            candidates.push(
+                { value: "--format", description: "markdown or json" },
+                { value: "--fields", description: EXPORT_FIELDS.join(",") },
+                { value: "--comments", description: "Comments to fetch per post" },
+            );
+        }
+    } else if (exporting && lastToken === "--format") {
+        candidates = EXPORT_FORMATS.map((value) => ({ value }));
+    } else if (exporting && (lastToken === "--fields" || lastToken === "--comments")) {
+        return null;
+    } else if (lastToken === "--time") {
+        candidates = TIME_FILTERS.map((value) => ({ value }));
+    } else if (lastToken === "--sort") {
+        const sorts = previous.some((t) => t.toLowerCase() === "search") ? SEARCH_SORTS : FEED_TYPES;
+        candidates = sorts.map((value) => ({ value }));
+    } else if (lastToken === "--limit" || previous.some((t) => t.toLowerCase() === "search")) {
+        // Free-form values (numbers, search terms)
+        return null;
+    } else if (previous.length === 0 && exporting) {
+        candidates = [
+            ...recentTargets.map((value) => ({ value, description: "recent" })),
+            { value: "search", description: "Search all of Reddit" },
+        ];
+    } else if (previous.length === 0) {
+        candidates = [
+            ...recentTargets.map((value) => ({ value, description: "recent" })),
+            { value: "search", description: "Search all of Reddit" },
+            { value: "export", description: "Save a listing as Markdown or JSON" },
+            { value: "watch", description: "Manage the watchlist" },
+            { value: "inbox", description: "New posts from watched subreddits" },
+            { value: "mute", description: "Hide authors, keywords or domains" },
+            { value: "unmute", description: "Remove from the mute list" },
+        ];
+    } else if (!exporting && ["mute", "unmute"].includes(previous[0].toLowerCase())) {
+        if (previous.length !== 1) return null;
+        candidates = [...MUTE_KINDS, "list"].map((value) => ({ value }));
+    } else if (!exporting && previous[0].toLowerCase() === "watch") {
+        if (previous.length === 1) {
+            candidates = ["add", "remove", "list", "interval"].map((value) => ({ value }));
+        } else if (previous.length === 2 && ["add", "remove"].includes(previous[1].toLowerCase())) {
+            candidates = recentTargets.filter((t) => !t.includes("/")).map((value) => ({ value, description: "recent" }));
+        } else {
+            return null;
+        }
+    } else {
+        const isUser = /^\/?u(ser)?\//i.test(previous[0]);
+        const feed = previous.slice(1).find((t) => FEED_TYPES.includes(t.toLowerCase()));
+        const hasTime = previous.slice(1).some((t) => TIME_FILTERS.includes(t.toLowerCase()));
+        if (!feed && previous.length === 1) {
+            candidates = (isUser ? USER_FEED_TYPES : FEED_TYPES).map((value) => ({ value, description: "feed" }));
+            if (!isUser) candidates.push({ value: "search", description: `Search r/${previous[0].replace(/^\/?r\//i, "")}` });
+        } else if ((feed === "top" || feed === "controversial") && !hasTime) {
+            candidates = TIME_FILTERS.map((value) => ({ value, description: "time filter" }));
+        } else {
+            return null;
+        }
+    }
+
+    const lower = current.toLowerCase();
+    const items = candidates
+        .filter((candidate) => candidate.value.toLowerCase().startsWith(lower))
+        .map((candidate) => ({ value: before + candidate.value, label: candidate.value, description: candidate.description }));
+    return items.length ? items : null;
+}
+
+/**
+ * Load recently used /reddit targets (sync, so completions can use them immediately)
+ */
+function loadRecentTargets(): string[] {
+    try {
+        const recent = JSON.parse(readFileSync(RECENT_PATH, "utf8"));
+        return Array.isArray(recent) ? recent.filter((t) => typeof t === "string") : [];
+    } catch {
+        return [];
+    }
+}
+
+async function saveRecentTargets(recent: string[]): Promise<void> {
+    try {
+        await mkdir(CACHE_DIR, { recursive: true });
+        await writeFile(RECENT_PATH, JSON.stringify(recent), "utf8");
+    } catch {
+        // Best-effort, like the listing cache
+    }
+}
+
+/**
+ * Background poller for watched subreddits. Tracks seen post ids, collects
+ * new posts into an inbox, and reports unseen counts in the status bar.
+ */
+class RedditWatcher {
+    private ctx?: ExtensionContext;
+    private timer?: ReturnType<typeof setTimeout>;
+    private failures = 0;
+    // Watched subreddits whose last poll failed; each is reported once until it recovers
+    private failing = new Set<string>();
+    private polling = false;
+    private state: RedditWatchState = { seen: {}, inbox: [] };
+    private stateLoaded = false;
+
+    /**
+     * Start (or re-point at a new context) and schedule the first poll shortly
+     */
+    start(ctx: ExtensionContext): void {
+        this.ctx = ctx;
+        void this.loadState().then(() => this.updateStatus());
+        this.schedule(5000);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.ctx = undefined;
+    }
+
+    /**
+     * Poll now instead of waiting for the timer (e.g. after the watchlist changed)
+     */
+    pollNow(): void {
+        this.schedule(0);
+    }
+
+    getInbox(): RedditPost[] {
+        return this.state.inbox;
+    }
+
+    async markInboxRead(): Promise<void> {
+        this.state.inbox = [];
+        await this.saveState();
+        this.updateStatus();
+    }
+
+    async forget(subreddit: string): Promise<void> {
+        await this.loadState();
+        delete this.state.seen[subreddit.toLowerCase()];
+        await this.saveState();
+    }
+
+    /**
+     * Show the unread badge, or clear it when the inbox is empty
+     */
+    updateStatus(ctx: ExtensionContext | undefined = this.ctx): void {
+        if (!ctx) return;
+        const inbox = this.state.inbox;
+        if (inbox.length === 0) {
+            ctx.ui.setStatus("reddit", undefined);
+            return;
+        }
+
+        const counts = new Map<string, number>();
+        for (const post of inbox) {
+            const name = post.subreddit || "?";
+            counts.set(name, (counts.get(name) || 0) + 1);
+        }
+        const breakdown = [...counts].map(([name, count]) => `r/${name} ${count}`).join(" · ");
+        const theme = ctx.ui.theme;
+        ctx.ui.setStatus("reddit", theme.fg("accent", `✉ ${inbox.length} new`) + theme.fg("dim", ` ${breakdown}`));
+    }
+
+    private schedule(delayMs: number): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            void this.poll();
+        }, delayMs);
+    }
+
+    private async loadState(): Promise<void> {
+        if (this.stateLoaded) return;
+        try {
+            const saved = JSON.parse(await readFile(WATCH_STATE_PATH, "utf8"));
+            this.state = { seen: saved.seen || {}, inbox: saved.inbox || [] };
+        } catch {
+            // First run: nothing seen yet
+        }
+        this.stateLoaded = true;
+    }
+
+    private async saveState(): Promise<void> {
+        try {
+            await mkdir(CACHE_DIR, { recursive: true });
+            await writeFile(WATCH_STATE_PATH, JSON.stringify(this.state), "utf8");
+        } catch {
+            // Best-effort, like the listing cache
+        }
+    }
+
+    /**
+     * Fetch each watched subreddit's newest posts and record the unseen ones.
+     * The first poll of a subreddit only marks its current posts as seen.
+     */
+    private async poll(): Promise<void> {
+        if (!this.ctx || this.polling) return;
+        this.polling = true;
+
+        const config = await loadConfig();
+        const intervalMs = config.watch.intervalMinutes * 60 * 1000;
+        let failed = false;
+
+        try {
+            await this.loadState();
+
+            for (const entry of config.watch.subreddits) {
+                const key = entry.subreddit.toLowerCase();
+                try {
+                    const { result, stale } = await fetchRedditPosts({
+                        kind: "subreddit",
+                        name: entry.subreddit,
+                        feedType: "new",
+                        limit: MAX_LIMIT,
+                    });
+                    if (stale) throw new Error("Reddit unreachable");
+
+                    const seenBefore = this.state.seen[key];
+                    const seen = new Set(seenBefore || []);
+                    const fresh = result.posts.filter((post) => !seen.has(post.id));
+
+                    if (seenBefore) {
+                        for (const post of fresh) {
+                            post.subreddit ||= entry.subreddit;
+                            this.state.inbox.unshift(post);
+                            this.notifyKeywordMatch(entry, post);
+                        }
+                        this.state.inbox.splice(WATCH_INBOX_LIMIT);
+                    }
+
+                    this.state.seen[key] = [...fresh.map((post) => post.id), ...(seenBefore || [])].slice(0, WATCH_SEEN_LIMIT);
+                    this.failing.delete(key);
+                } catch (error) {
+                    failed = true;
+                    if (!this.failing.has(key)) {
+                        this.failing.add(key);
+                        const message = error instanceof Error ? error.message : String(error);
+                        this.ctx?.ui.notify(`Reddit watch: r/${entry.subreddit} failed (${message}); retrying quietly`, "warning");
+                    }
+                }
+            }
+
+            await this.saveState();
+            this.updateStatus();
+        } finally {
+            this.polling = false;
+        }
+
+        this.failures = failed ? this.failures + 1 : 0;
+        if (this.ctx) {
+            this.schedule(Math.min(MAX_WATCH_BACKOFF_MS, intervalMs * 2 ** this.failures));
+        }
+    }
+
+    private notifyKeywordMatch(entry: RedditWatchEntry, post: RedditPost): void {
+        const text = `${post.title}\n${post.content}`.toLowerCase();
+        const keyword = entry.keywords.find((k) => text.includes(k.toLowerCase()));
+        if (keyword && this.ctx) {
+            this.ctx.ui.notify(`r/${entry.subreddit}: "${post.title}" (matched "${keyword}")`, "info");
+        }
+    }
+}
+
+/**
+ * Handle /reddit watch add|remove|list|interval
+ */
+async function handleWatchCommand(tokens: string[], ctx: ExtensionCommandContext, watcher: RedditWatcher): Promise<void> {
+    const [action, target, ...keywords] = tokens;
+    const config = await loadConfig();
+    const subreddits = config.watch.subreddits;
+    const name = target?.replace(/^\/?r\//i, "");
+    const index = name ? subreddits.findIndex((e) => e.subreddit.toLowerCase() === name.toLowerCase()) : -1;
+
+    if (action === "add") {
+        if (!name || !/^[A-Za-z0-9_]{2,21}$/.test(name)) {
+            ctx.ui.notify("Usage: /reddit watch add <subreddit> [keyword...]", "error");
+            return;
+        }
+        if (index >= 0) {
+            subreddits[index].keywords = keywords;
+        } else {
+            subreddits.push({ subreddit: name, keywords });
+        }
+        await saveConfig(config);
+        watcher.pollNow();
+        const matching = keywords.length ? `, notifying on: ${keywords.join(", ")}` : "";
+        ctx.ui.notify(`Watching r/${name} every ${config.watch.intervalMinutes}m${matching}`, "info");
+    } else if (action === "remove") {
+        if (index < 0) {
+            ctx.ui.notify(`r/${name || "?"} is not on the watchlist`, "error");
+            return;
+        }
+        subreddits.splice(index, 1);
+        await saveConfig(config);
+        await watcher.forget(name!);
+        ctx.ui.notify(`Stopped watching r/${name}`, "info");
+    } else if (action === "interval") {
+        const minutes = Number(target);
+        if (!Number.isFinite(minutes) || minutes < 1) {
+            ctx.ui.notify("Usage: /reddit watch interval <minutes> (at least 1)", "error");
+            return;
+        }
+        config.watch.intervalMinutes = minutes;
+        await saveConfig(config);
+        watcher.pollNow();
+        ctx.ui.notify(`Polling watched subreddits every ${minutes}m`, "info");
+    } else if (action === "list" || !action) {
+        if (subreddits.length === 0) {
+            ctx.ui.notify("Watchlist is empty. Add one with /reddit watch add <subreddit>", "info");
+            return;
+        }
+        const lines = subreddits.map((e) => `r/${e.subreddit}${e.keywords.length ? ` (${e.keywords.join(", ")})` : ""}`);
+        ctx.ui.notify(`Watching every ${config.watch.intervalMinutes}m:\n${lines.join("\n")}`, "info");
+    } else {
+        ctx.ui.notify(`Unknown watch action "${action}". Use add, remove, list or interval`, "error");
+    }
+}
+
+/**
+ * Handle /reddit mute|unmute [author|keyword|domain <value>]; no value lists the mute list
+ */
+async function handleMuteCommand(unmute: boolean, tokens: string[], ctx: ExtensionCommandContext): Promise<void> {
+    const config = await loadConfig();
+    const { mute } = config;
+    const [kind, ...rest] = tokens;
+    const value = rest.join(" ").replace(/^\/?u\//i, "").trim();
+
+    if (!kind || kind === "list") {
+        const sections = [
+            ["Authors", mute.authors],
+            ["Keywords", mute.keywords],
+            ["Domains", mute.domains],
+        ].filter(([, values]) => values.length > 0) as [string, string[]][];
+        if (sections.length === 0) {
+            ctx.ui.notify("Mute list is empty. Add with /reddit mute author|keyword|domain <value>", "info");
+            return;
+        }
+        ctx.ui.notify(sections.map(([label, values]) => `${label}: ${values.join(", ")}`).join("\n"), "info");
+        return;
+    }
+
+    const usage = `Usage: /reddit ${unmute ? "unmute" : "mute"} author|keyword|domain <value>`;
+    if (!(MUTE_KINDS as readonly string[]).includes(kind) || !value) {
+        ctx.ui.notify(usage, "error");
+        return;
+    }
+
+    const list = kind === "author" ? mute.authors : kind === "keyword" ? mute.keywords : mute.domains;
+    const index = list.findIndex((v) => v.toLowerCase() === value.toLowerCase());
+
+    if (unmute) {
+        if (index < 0) {
+            ctx.ui.notify(`${kind} "${value}" is not muted`, "error");
+            return;
+        }
+        list.splice(index, 1);
+        await saveConfig(config);
+        ctx.ui.notify(`Unmuted ${kind} "${value}"`, "info");
+    } else {
+        if (index < 0) list.push(value);
+        await saveConfig(config);
+        ctx.ui.notify(`Muted ${kind} "${value}"`, "info");
+    }
+}
+
+/**
+ * Wrap text to fit within a given width
+ */
+function wrapText(text: string, maxWidth: number): string[] {
+    const words = text.split(" ");
+    const lines: string[] = [];
+    let currentLine = "";
+
+    for (const word of words) {
+        if (currentLine.length + word.length + 1 <= maxWidth) {
+            currentLine += (currentLine ? " " : "") + word;
+        } else {
+            if (currentLine) lines.push(currentLine);
+            currentLine = word.length > maxWidth ? word.slice(0, maxWidth) : word;
+        }
+    }
+    if (currentLine) lines.push(currentLine);
+    return lines.length ? lines : [""];
+}
+
+/**
+ * Open URL in the default browser
+ */
+function openUrl(url: string): void {
+    const platform = process.platform;
+
+    if (platform === "darwin") {
+        // macOS: use open command
+        spawn("open", [url], { detached: true, stdio: "ignore" }).unref();
+    } else if (platform === "win32") {
+        // Windows: use start command
+        spawn("cmd", ["/c", "start", "", url], { detached: true, stdio: "ignore" }).unref();
+    } else {
+        // Linux: use xdg-open
+        spawn("xdg-open", [url], { detached: true, stdio: "ignore" }).unref();
+    }
+}
+
+/**
+ * Flair, NSFW/spoiler flags and link domain as styled badges (empty when none apply)
+ */
+function formatPostBadges(post: RedditPost, theme: Theme): string {
+    const badges: string[] = [];
+    if (post.nsfw) badges.push(theme.fg("error", "NSFW"));
+    if (post.spoiler) badges.push(theme.fg("warning", "SPOILER"));
+    if (post.flair) badges.push(theme.fg("accent", `[${post.flair}]`));
+    if (post.domain && !post.isSelf) badges.push(theme.fg("dim", post.domain));
+    return badges.join(" ");
+}
+
+/**
+ * Wrap multi-paragraph text (e.g. a comment body) to fit within a given width
+ */
+function wrapParagraphs(text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\n+/)) {
+        const trimmed = paragraph.trim();
+        if (trimmed) lines.push(...wrapText(trimmed, maxWidth));
+    }
+    return lines.length ? lines : [""];
+}
+
+/**
+ * Render scrollable content lines inside the overlay's rounded box
+ */
+function renderOverlayFrame(
+    theme: Theme,
+    width: number,
+    title: string,
+    allLines: string[],
+    scrollOffset: number,
+    maxVisibleLines: number,
+): string[] {
+    const th = theme;
+    const visibleLines = allLines.slice(scrollOffset, scrollOffset + maxVisibleLines);
+
+    // Build box around visible content
+    const result: string[] = [];
+    const innerW = Math.max(1, width - 2);
+    const padLine = (s: string) => truncateToWidth(s, innerW, "...", true);
+
+    const titleText = truncateToWidth(title, innerW);
+    const titlePad = Math.max(0, innerW - visibleWidth(titleText));
+
+    result.push(th.fg("border", "╭") + th.fg("accent", titleText) + th.fg("border", "─".repeat(titlePad) + "╮"));
+
+    // Scroll indicators
+    const canScrollUp = scrollOffset > 0;
+    const canScrollDown = scrollOffset < allLines.length - maxVisibleLines;
+    const scrollInfo = `↑${scrollOffset}/${allLines.length}↓`;
+
+    if (canScrollUp || canScrollDown) {
+        result.push(th.fg("border", "│") + padLine(th.fg("dim", ` ${scrollInfo}`)) + th.fg("border", "│"));
+    }
+
+    // Visible content lines
+    for (const line of visibleLines) {
+        result.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
+    }
+
+    // Pad to maxVisibleLines
+    for (let i = visibleLines.length; i < maxVisibleLines; i++) {
+        result.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
+    }
+
+    result.push(th.fg("border", "╰" + "─".repeat(innerW) + "╯"));
+
+    return result;
+}
+
+/**
+ * Full post view shown inside the Reddit overlay: metadata, link/media and
+ * the selftext rendered as markdown
+ */
+class RedditPostDetailView {
+    private post: RedditPost;
+    private listingName: string;
+    private theme: Theme;
+    private onChange: () => void;
+    private onBack: () => void;
+    private onComments: () => void;
+    private scrollOffset = 0;
+    private maxVisibleLines = 15;
+    private lastLineCount = 0;
+
+    constructor(
+        post: RedditPost,
+        listingName: string,
+        theme: Theme,
+        onChange: () => void,
+        onBack: () => void,
+        onComments: () => void,
+    ) {
+        this.post = post;
+        this.listingName = listingName;
+        this.theme = theme;
+        this.onChange = onChange;
+        this.onBack = onBack;
+        this.onComments = onComments;
+    }
+
+    handleInput(data: string): void {
+        const maxOffset = Math.max(0, this.lastLineCount - this.maxVisibleLines);
+
+        if (matchesKey(data, "escape") || matchesKey(data, "backspace") || matchesKey(data, "d")) {
+            this.onBack();
+            return;
+        } else if (matchesKey(data, "enter")) {
+            this.onComments();
+            return;
+        } else if (matchesKey(data, "o")) {
+            openUrl(this.post.link);
+            return;
+        } else if (matchesKey(data, "up")) {
+            this.scrollOffset = Math.max(0, this.scrollOffset - 1);
+        } else if (matchesKey(data, "down")) {
+            this.scrollOffset = Math.min(maxOffset, this.scrollOffset + 1);
+        } else if (matchesKey(data, "pageUp") || matchesKey(data, "ctrl+b")) {
+            this.scrollOffset = Math.max(0, this.scrollOffset - this.maxVisibleLines);
+        } else if (matchesKey(data, "pageDown") || matchesKey(data, "ctrl+f") || matchesKey(data, "space")) {
+            this.scrollOffset = Math.min(maxOffset, this.scrollOffset + this.maxVisibleLines);
+        } else if (matchesKey(data, "home")) {
+            this.scrollOffset = 0;
+        } else if (matchesKey(data, "end")) {
+            this.scrollOffset = maxOffset;
+        } else {
+            return;
+        }
+
+        this.onChange();
+    }
+
+    /**
+     * Generate all lines for the post at a given content width
+     */
+    private buildLines(contentWidth: number): string[] {
+        const th = this.theme;
+        const post = this.post;
+        const lines: string[] = [];
+
+        for (const titleLine of wrapText(post.title, contentWidth - 1)) {
+            lines.push(` ${th.bold(th.fg("accent", titleLine))}`);
+        }
+
+        const badges = formatPostBadges(post, th);
+        if (badges) lines.push(` ${badges}`);
+
+        // Metadata: where, who, when, votes and comments
+        const where = post.subreddit ? `r/${post.subreddit}` : this.listingName;
+        const meta = [where, `u/${post.author}`, formatRelativeTime(post.published), `▲ ${post.score}`];
+        if (post.upvoteRatio !== undefined) meta.push(`${Math.round(post.upvoteRatio * 100)}% upvoted`);
+        if (post.numComments !== undefined) meta.push(`${post.numComments} comments`);
+        lines.push(` ${th.fg("dim", meta.join(" · "))}`);
+
+        // Link posts: target URL and any directly playable/viewable media
+        if (post.url && !post.isSelf && post.url !== post.link) {
+            lines.push(` ${th.fg("muted", "Link:")} ${th.fg("mdLinkUrl", post.url)}`);
+        }
+        if (post.mediaUrl && post.mediaUrl !== post.url) {
+            lines.push(` ${th.fg("muted", "Media:")} ${th.fg("mdLinkUrl", post.mediaUrl)}`);
+        }
+        lines.push(` ${th.fg("muted", "Thread:")} ${th.fg("mdLinkUrl", post.link)}`);
+        lines.push("");
+
+        if (post.content.trim()) {
+            const markdown = new Markdown(post.content.trim(), 1, 0, getMarkdownTheme());
+            lines.push(...markdown.render(contentWidth));
+        } else {
+            lines.push(` ${th.fg("dim", post.isSelf === false ? "Link post, no text." : "No text.")}`);
+        }
+
+        // Footer
+        lines.push("");
+        lines.push(` ${th.fg("dim", "↑↓: scroll • Enter: comments • o: open • Esc: back")}`);
+
+        return lines;
+    }
+
+    render(width: number): string[] {
+        const lines = this.buildLines(Math.max(20, width - 2));
+        this.lastLineCount = lines.length;
+        this.scrollOffset = Math.min(this.scrollOffset, Math.max(0, lines.length - this.maxVisibleLines));
+        return renderOverlayFrame(this.theme, width, " Reddit: post ", lines, this.scrollOffset, this.maxVisibleLines);
+    }
+}
+
+/**
+ * Threaded comment viewer shown inside the Reddit overlay for a single post
+ */
+class RedditCommentsView {
+    private post: RedditPost;
+    private theme: Theme;
+    private cache: Map<string, RedditCommentThread>;
+    private onChange: () => void;
+    private onBack: () => void;
+    private thread?: RedditCommentThread;
+    private commentsById = new Map<string, RedditComment>();
+    private collapsed = new Set<string>();
+    private error?: string;
+    private selectedIndex = 0;
+    private scrollOffset = 0;
+    private maxVisibleLines = 15;
+    private abortController?: AbortController;
+    private spinnerInterval?: ReturnType<typeof setInterval>;
+    private spinnerFrame = 0;
+
+    constructor(
+        post: RedditPost,
+        theme: Theme,
+        cache: Map<string, RedditCommentThread>,
+        onChange: () => void,
+        onBack: () => void,
+    ) {
+        this.post = post;
+        this.theme = theme;
+        this.cache = cache;
+        this.onChange = onChange;
+        this.onBack = onBack;
+
+        const cached = cache.get(post.id);
+        if (cached) {
+            this.setThread(cached);
+        } else {
+            this.load();
         }
+    }
 
-        // Get subreddit from the first post
-        const firstPost = response.data.children[0]?.data;
-        const subreddit = firstPost?.subreddit || "unknown";
+    /**
+     * Fetch the thread in the background, animating a spinner until it arrives
+     */
+    private load(): void {
+        const controller = new AbortController();
+        this.abortController = controller;
+        this.spinnerInterval = setInterval(() => {
+            this.spinnerFrame = (this.spinnerFrame + 1) % SPINNER_FRAMES.length;
+            this.onChange();
+        }, 80);
+
+        fetchRedditComments(this.post.id, COMMENT_LIMIT, controller.signal)
+            .then((thread) => {
+                this.cache.set(this.post.id, thread);
+                this.setThread(thread);
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return;
+                this.error = error instanceof Error ? error.message : String(error);
+            })
+            .finally(() => {
+                this.stopSpinner();
+                if (!controller.signal.aborted) this.onChange();
+            });
+    }
 
-        // Parse posts
-        const posts: RedditPost[] = response.data.children.map((child: any) => {
-            const postData = child.data;
-            const createdUtc = postData.created_utc * 1000; // Convert to milliseconds
-            const published = new Date(createdUtc).toISOString();
+    private setThread(thread: RedditCommentThread): void {
+        this.thread = thread;
+        this.commentsById.clear();
+        const index = (comments: RedditComment[]) => {
+            for (const comment of comments) {
+                this.commentsById.set(comment.id, comment);
+                index(comment.replies);
+            }
+        };
+        index(thread.comments);
+    }
 
-            return {
-                id: postData.id,
-                title: postData.title,
-                author: postData.author,
-                link: `https://www.reddit.com${postData.permalink}`,
-                published,
-                updated: published,
-                content: postData.selftext || "",
-                score: postData.score || 0,
-            };
-        });
+    private stopSpinner(): void {
+        if (this.spinnerInterval) {
+            clearInterval(this.spinnerInterval);
+            this.spinnerInterval = undefined;
+        }
+    }
 
-        return {
-            subreddit,
-            feedType: requestedFeedType,
-            updated: new Date().toISOString(),
-            posts,
-        };
-    } catch (error) {
-        console.error("Failed to parse Reddit JSON:", error);
-        return null;
+    /**
+     * Cancel any in-flight fetch (called when leaving the view or closing the overlay)
+     */
+    dispose(): void {
+        this.stopSpinner();
+        this.abortController?.abort();
     }
-}
 
-/**
- * Fetch Reddit posts using JSON API
- */
-async function fetchRedditPosts(
-    subreddit: string,
-    feedType: string,
-    timeFilter: string | undefined,
-    limit: number,
-    signal?: AbortSignal
-): Promise<{ result: JSONParseResult; source: "json" }> {
-    const userAgent = "pi-reddit-extension/1.0";
+    handleInput(data: string): void {
+        const visible = this.getVisibleComments();
+        const selected = visible[this.selectedIndex];
+
+        if (matchesKey(data, "escape") || matchesKey(data, "backspace") || matchesKey(data, "b")) {
+            this.dispose();
+            this.onBack();
+            return;
+        } else if (matchesKey(data, "up")) {
+            if (this.selectedIndex > 0) this.selectedIndex--;
+        } else if (matchesKey(data, "down")) {
+            if (this.selectedIndex < visible.length - 1) this.selectedIndex++;
+        } else if (matchesKey(data, "home")) {
+            this.selectedIndex = 0;
+        } else if (matchesKey(data, "end")) {
+            this.selectedIndex = Math.max(0, visible.length - 1);
+        } else if (matchesKey(data, "pageUp") || matchesKey(data, "ctrl+b")) {
+            this.selectedIndex = Math.max(0, this.selectedIndex - 5);
+        } else if (matchesKey(data, "pageDown") || matchesKey(data, "ctrl+f")) {
+            this.selectedIndex = Math.min(Math.max(0, visible.length - 1), this.selectedIndex + 5);
+        } else if (matchesKey(data, "enter") || matchesKey(data, "space")) {
+            // Toggle the selected subtree
+            if (selected && selected.replies.length > 0) {
+                if (this.collapsed.has(selected.id)) {
+                    this.collapsed.delete(selected.id);
+                } else {
+                    this.collapsed.add(selected.id);
+                }
+            }
+        } else if (matchesKey(data, "left")) {
+            // Collapse, or jump to parent when already collapsed / nothing to collapse
+            if (selected && selected.replies.length > 0 && !this.collapsed.has(selected.id)) {
+                this.collapsed.add(selected.id);
+            } else {
+                this.selectParent(selected, visible);
+            }
+        } else if (matchesKey(data, "right")) {
+            if (selected) this.collapsed.delete(selected.id);
+        } else if (matchesKey(data, "p")) {
+            this.selectParent(selected, visible);
+        } else if (matchesKey(data, "o")) {
+            openUrl(this.post.link);
+            return;
+        } else {
+            return;
+        }
 
-    // Try JSON API
-    let jsonUrl = `https://www.reddit.com/r/${subreddit}/${feedType}.json?limit=${limit}`;
-    if (feedType === "top" && timeFilter) {
-        jsonUrl += `&t=${timeFilter}`;
+        this.scrollToSelected();
+        this.onChange();
     }
 
-    const response = await fetch(jsonUrl, {
-        signal,
-        headers: { "User-Agent": userAgent },
-    });
+    private selectParent(comment: RedditComment | undefined, visible: RedditComment[]): void {
+        if (!comment?.parentId) return;
+        const parentIndex = visible.findIndex((c) => c.id === comment.parentId);
+        if (parentIndex >= 0) this.selectedIndex = parentIndex;
+    }
 
-    if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    /**
+     * Flatten the tree into display order, skipping replies of collapsed comments
+     */
+    private getVisibleComments(): RedditComment[] {
+        const visible: RedditComment[] = [];
+        const walk = (comments: RedditComment[]) => {
+            for (const comment of comments) {
+                visible.push(comment);
+                if (!this.collapsed.has(comment.id)) walk(comment.replies);
+            }
+        };
+        if (this.thread) walk(this.thread.comments);
+        return visible;
     }
 
-    const json = await response.text();
-    const parsed = parseRedditJson(json, feedType);
+    private countReplies(comment: RedditComment): number {
+        return comment.replies.reduce((sum, reply) => sum + 1 + this.countReplies(reply), 0);
+    }
 
-    if (!parsed || parsed.posts.length === 0) {
-        throw new Error(`No posts found in r/${subreddit}`);
+    /**
+     * Scroll to ensure the selected comment is visible
+     */
+    private scrollToSelected(): void {
+        const { lines, commentStarts } = this.buildLines();
+        const start = commentStarts[this.selectedIndex];
+        if (start === undefined) return;
+        const end = this.selectedIndex < commentStarts.length - 1
+            ? commentStarts[this.selectedIndex + 1]
+            : lines.length;
+
+        if (start < this.scrollOffset) {
+            this.scrollOffset = start;
+        } else if (end > this.scrollOffset + this.maxVisibleLines) {
+            this.scrollOffset = Math.max(0, Math.min(start, end - this.maxVisibleLines));
+        }
     }
 
-    return { result: parsed, source: "json" };
-}
+    /**
+     * Generate all lines for the thread, recording where each visible comment starts
+     */
+    private buildLines(boxWidth: number = 78): { lines: string[]; commentStarts: number[] } {
+        const th = this.theme;
+        const lines: string[] = [];
+        const commentStarts: number[] = [];
+        const post = this.post;
 
-/**
- * Wrap text to fit within a given width
- */
-function wrapText(text: string, maxWidth: number): string[] {
-    const words = text.split(" ");
-    const lines: string[] = [];
-    let currentLine = "";
+        // Header: post title and metadata
+        for (const titleLine of wrapText(post.title, boxWidth - 2)) {
+            lines.push(` ${th.fg("accent", titleLine)}`);
+        }
+        const upvotes = post.score > 0 ? `▲ ${post.score}` : "▲ -";
+        lines.push(` ${th.fg("dim", `${post.author} · ${formatRelativeTime(post.published)} · ${upvotes}`)}`);
+        lines.push("");
 
-    for (const word of words) {
-        if (currentLine.length + word.length + 1 <= maxWidth) {
-            currentLine += (currentLine ? " " : "") + word;
+        if (!this.thread) {
+            if (this.error) {
+                lines.push(` ${th.fg("error", `Error: ${this.error}`)}`);
+            } else {
+                lines.push(` ${th.fg("accent", SPINNER_FRAMES[this.spinnerFrame])} ${th.fg("dim", "Loading comments...")}`);
+            }
+        } else if (this.thread.comments.length === 0) {
+            lines.push(` ${th.fg("dim", "No comments yet.")}`);
         } else {
-            if (currentLine) lines.push(currentLine);
-            currentLine = word.length > maxWidth ? word.slice(0, maxWidth) : word;
+            // Walk the tree in the same order as getVisibleComments()
+            let index = 0;
+            const renderComments = (comments: RedditComment[]) => {
+                for (const comment of comments) {
+                    const isSelected = index === this.selectedIndex;
+                    const isCollapsed = this.collapsed.has(comment.id);
+                    const indentDepth = Math.min(comment.depth, MAX_INDENT_DEPTH);
+                    const guide = th.fg("borderMuted", "│ ".repeat(indentDepth));
+                    const marker = isSelected ? th.fg("accent", "►") : " ";
+
+                    commentStarts.push(lines.length);
+                    index++;
+
+                    // Header line: author · age · score, plus hidden reply count when collapsed
+                    const author = isSelected ? th.fg("accent", comment.author) : th.fg("text", comment.author);
+                    const meta = th.fg("dim", ` · ${formatRelativeTime(comment.published)} · ▲ ${comment.score}`);
+                    const hidden = isCollapsed ? th.fg("warning", ` [+${this.countReplies(comment)}]`) : "";
+                    lines.push(marker + guide + author + meta + hidden);
+
+                    if (isCollapsed) {
+                        lines.push("");
+                        continue;
+                    }
+
+                    const bodyWidth = Math.max(20, boxWidth - 2 - indentDepth * 2);
+                    for (const bodyLine of wrapParagraphs(comment.body, bodyWidth)) {
+                        lines.push(" " + guide + bodyLine);
+                    }
+                    lines.push("");
+
+                    renderComments(comment.replies);
+
+                    if (comment.moreReplies > 0) {
+                        const moreGuide = th.fg("borderMuted", "│ ".repeat(Math.min(comment.depth + 1, MAX_INDENT_DEPTH)));
+                        lines.push(" " + moreGuide + th.fg("dim", `… ${comment.moreReplies} more replies`));
+                        lines.push("");
+                    }
+                }
+            };
+            renderComments(this.thread.comments);
+
+            if (this.thread.moreComments > 0) {
+                lines.push(` ${th.fg("dim", `… ${this.thread.moreComments} more comments on reddit`)}`);
+            }
         }
-    }
-    if (currentLine) lines.push(currentLine);
-    return lines.length ? lines : [""];
-}
 
-/**
- * Open URL in the default browser
- */
-function openUrl(url: string): void {
-    const platform = process.platform;
+        // Footer
+        lines.push("");
+        lines.push(` ${th.fg("dim", "↑↓: navigate • Enter: collapse/expand • p: parent • o: open • Esc: back")}`);
 
-    if (platform === "darwin") {
-        // macOS: use open command
-        spawn("open", [url], { detached: true, stdio: "ignore" }).unref();
-    } else if (platform === "win32") {
-        // Windows: use start command
-        spawn("cmd", ["/c", "start", "", url], { detached: true, stdio: "ignore" }).unref();
-    } else {
-        // Linux: use xdg-open
-        spawn("xdg-open", [url], { detached: true, stdio: "ignore" }).unref();
+        return { lines, commentStarts };
+    }
+
+    render(width: number): string[] {
+        const { lines } = this.buildLines();
+        const count = this.thread ? this.commentsById.size : 0;
+        return renderOverlayFrame(this.theme, width, ` Reddit: ${count} comments `, lines, this.scrollOffset, this.maxVisibleLines);
     }
 }
 
@@ -200,12 +2439,32 @@ class RedditPostsComponent {
     private theme: Theme;
     private tui: TUI;
     private done: () => void;
+    private onInsert: (text: string) => void;
     private selectedIndex = 0;
     private scrollOffset = 0;
     private cachedWidth?: number;
     private cachedLines?: string[];
     private maxVisibleLines = 15;
     private postsToShow: RedditPost[];
+    private commentsView?: RedditCommentsView;
+    private detailView?: RedditPostDetailView;
+    private commentCache = new Map<string, RedditCommentThread>();
+    private fetchPage: (after: string, signal: AbortSignal) => Promise<JSONParseResult>;
+    private after?: string;
+    private pageController?: AbortController;
+    private pageError?: string;
+    private spinnerInterval?: ReturnType<typeof setInterval>;
+    private spinnerFrame = 0;
+    // View filters; visiblePosts is postsToShow with them applied
+    private visiblePosts: RedditPost[] = [];
+    private filterText = "";
+    private editingFilter = false;
+    private sortMode: RedditSortMode = "listing";
+    private minScore: number;
+    private muted: number;
+    // Posts marked with x for export
+    private selectedIds = new Set<string>();
+    private onExport: (result: JSONParseResult, threads: Map<string, RedditCommentThread>) => void;
 
     constructor(
         result: JSONParseResult,
@@ -213,18 +2472,107 @@ class RedditPostsComponent {
         theme: Theme,
         tui: TUI,
         done: () => void,
+        onInsert: (text: string) => void,
+        onExport: (result: JSONParseResult, threads: Map<string, RedditCommentThread>) => void,
+        fetchPage: (after: string, signal: AbortSignal) => Promise<JSONParseResult>,
+        minScore: number = 0,
     ) {
         this.result = result;
         this.limit = limit;
         this.theme = theme;
         this.tui = tui;
         this.done = done;
+        this.onInsert = onInsert;
+        this.onExport = onExport;
+        this.fetchPage = fetchPage;
         this.postsToShow = result.posts.slice(0, limit);
+        this.after = result.after;
+        this.minScore = minScore;
+        this.muted = result.muted || 0;
+        this.applyView();
+    }
+
+    /**
+     * Recompute the visible posts from the filter text, minimum score and sort
+     * order, keeping the selected post selected when it is still visible
+     */
+    private applyView(): void {
+        const selected = this.visiblePosts[this.selectedIndex];
+        const needle = this.filterText.toLowerCase();
+
+        const posts = this.postsToShow.filter((post) =>
+            post.score >= this.minScore &&
+            (!needle || `${post.title}\n${post.author}\n${post.content}`.toLowerCase().includes(needle))
+        );
+
+        if (this.sortMode === "score") {
+            posts.sort((a, b) => b.score - a.score);
+        } else if (this.sortMode === "age") {
+            posts.sort((a, b) => b.published.localeCompare(a.published));
+        } else if (this.sortMode === "comments") {
+            posts.sort((a, b) => (b.numComments ?? -1) - (a.numComments ?? -1));
+        }
+
+        this.visiblePosts = posts;
+        const index = selected ? posts.indexOf(selected) : -1;
+        this.selectedIndex = index >= 0 ? index : 0;
+        if (index < 0) this.scrollOffset = 0;
+        this.scrollToSelected();
+        this.invalidate();
+        this.tui.requestRender();
+    }
+
+    /**
+     * Keys while typing a filter: text narrows the list as you type,
+     * Enter keeps the filter, Esc clears it
+     */
+    private handleFilterInput(data: string): void {
+        if (matchesKey(data, "escape")) {
+            this.editingFilter = false;
+            this.filterText = "";
+        } else if (matchesKey(data, "enter")) {
+            this.editingFilter = false;
+        } else if (matchesKey(data, "backspace")) {
+            this.filterText = this.filterText.slice(0, -1);
+        } else if (data.length === 1 && data >= " ") {
+            this.filterText += data;
+        } else {
+            return;
+        }
+        this.applyView();
     }
 
     handleInput(data: string): void {
-        if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c")) {
+        if (matchesKey(data, "ctrl+c")) {
+            this.dispose();
             this.done();
+        } else if (this.commentsView) {
+            this.commentsView.handleInput(data);
+        } else if (this.detailView) {
+            this.detailView.handleInput(data);
+        } else if (this.editingFilter) {
+            this.handleFilterInput(data);
+        } else if (matchesKey(data, "escape")) {
+            // Clear an active filter first, close on the next Esc
+            if (this.filterText) {
+                this.filterText = "";
+                this.applyView();
+            } else {
+                this.done();
+            }
+        } else if (matchesKey(data, "/")) {
+            this.editingFilter = true;
+            this.invalidate();
+            this.tui.requestRender();
+        } else if (matchesKey(data, "s")) {
+            // Cycle sort order: listing → score → age → comments
+            this.sortMode = SORT_MODES[(SORT_MODES.indexOf(this.sortMode) + 1) % SORT_MODES.length];
+            this.applyView();
+        } else if (matchesKey(data, "m")) {
+            // Raise the minimum score to the next step, wrapping back to 0
+            this.minScore = MIN_SCORE_STEPS.find((step) => step > this.minScore) ?? 0;
+            this.applyView();
+            this.loadMoreIfAtEnd();
         } else if (matchesKey(data, "up")) {
             // Navigate to previous post
             if (this.selectedIndex > 0) {
@@ -235,43 +2583,204 @@ class RedditPostsComponent {
             }
         } else if (matchesKey(data, "down")) {
             // Navigate to next post
-            if (this.selectedIndex < this.postsToShow.length - 1) {
+            if (this.selectedIndex < this.visiblePosts.length - 1) {
                 this.selectedIndex++;
                 this.scrollToSelected();
                 this.invalidate();
                 this.tui.requestRender();
             }
+            this.loadMoreIfAtEnd();
+        } else if (matchesKey(data, "n")) {
+            // Load the next page manually (also retries after an error)
+            this.loadNextPage();
         } else if (matchesKey(data, "enter")) {
+            // Show the comment thread for the selected post
+            const selectedPost = this.visiblePosts[this.selectedIndex];
+            if (selectedPost) {
+                this.openComments(selectedPost);
+            }
+        } else if (matchesKey(data, "d")) {
+            // Show the full text and metadata of the selected post
+            const selectedPost = this.visiblePosts[this.selectedIndex];
+            if (selectedPost) {
+                this.openDetail(selectedPost);
+            }
+        } else if (matchesKey(data, "o")) {
             // Open selected post in browser
-            const selectedPost = this.postsToShow[this.selectedIndex];
+            const selectedPost = this.visiblePosts[this.selectedIndex];
             if (selectedPost) {
                 openUrl(selectedPost.link);
             }
+        } else if (matchesKey(data, "i")) {
+            // Insert selected post into the editor as context and close
+            const selectedPost = this.visiblePosts[this.selectedIndex];
+            if (selectedPost) {
+                this.onInsert(formatPostForContext(selectedPost, this.result));
+                this.done();
+            }
+        } else if (matchesKey(data, "x")) {
+            // Mark the selected post for export and move to the next one
+            const selectedPost = this.visiblePosts[this.selectedIndex];
+            if (selectedPost) {
+                if (!this.selectedIds.delete(selectedPost.id)) {
+                    this.selectedIds.add(selectedPost.id);
+                }
+                this.selectedIndex = Math.min(this.visiblePosts.length - 1, this.selectedIndex + 1);
+                this.scrollToSelected();
+                this.invalidate();
+                this.tui.requestRender();
+            }
+        } else if (matchesKey(data, "e")) {
+            this.exportPosts();
         } else if (matchesKey(data, "home")) {
             this.selectedIndex = 0;
             this.scrollOffset = 0;
             this.invalidate();
             this.tui.requestRender();
         } else if (matchesKey(data, "end")) {
-            this.selectedIndex = this.postsToShow.length - 1;
+            this.selectedIndex = Math.max(0, this.visiblePosts.length - 1);
             this.scrollToSelected();
             this.invalidate();
             this.tui.requestRender();
+            this.loadMoreIfAtEnd();
         } else if (matchesKey(data, "pageup") || matchesKey(data, "ctrl+b")) {
-            const jumpAmount = Math.max(1, Math.floor(this.postsToShow.length / 3));
+            const jumpAmount = Math.max(1, Math.floor(this.visiblePosts.length / 3));
             this.selectedIndex = Math.max(0, this.selectedIndex - jumpAmount);
             this.scrollToSelected();
             this.invalidate();
             this.tui.requestRender();
         } else if (matchesKey(data, "pagedown") || matchesKey(data, "ctrl+f") || matchesKey(data, " ")) {
-            const jumpAmount = Math.max(1, Math.floor(this.postsToShow.length / 3));
-            this.selectedIndex = Math.min(this.postsToShow.length - 1, this.selectedIndex + jumpAmount);
+            const jumpAmount = Math.max(1, Math.floor(this.visiblePosts.length / 3));
+            this.selectedIndex = Math.min(Math.max(0, this.visiblePosts.length - 1), this.selectedIndex + jumpAmount);
             this.scrollToSelected();
             this.invalidate();
             this.tui.requestRender();
+            this.loadMoreIfAtEnd();
+        }
+    }
+
+    /**
+     * Export the posts marked with x, or every visible post when none are
+     * marked, with any comment threads already opened in this overlay
+     */
+    private exportPosts(): void {
+        const marked = this.postsToShow.filter((post) => this.selectedIds.has(post.id));
+        const posts = marked.length > 0 ? marked : this.visiblePosts;
+        if (posts.length === 0) return;
+
+        const threads = new Map<string, RedditCommentThread>();
+        for (const post of posts) {
+            const thread = this.commentCache.get(post.id);
+            if (thread) threads.set(post.id, thread);
+        }
+        this.onExport({ ...this.result, posts, after: this.after, muted: this.muted }, threads);
+    }
+
+    /**
+     * Start loading the next page once the selection reaches the last post.
+     * Errors are not retried automatically; press n to retry.
+     */
+    private loadMoreIfAtEnd(): void {
+        if (this.selectedIndex >= this.visiblePosts.length - 1 && !this.pageError) {
+            this.loadNextPage();
+        }
+    }
+
+    /**
+     * Fetch the page after the last loaded post and append its new posts
+     */
+    private loadNextPage(): void {
+        if (!this.after || this.pageController) return;
+
+        const controller = new AbortController();
+        this.pageController = controller;
+        this.pageError = undefined;
+        this.spinnerInterval = setInterval(() => {
+            this.spinnerFrame = (this.spinnerFrame + 1) % SPINNER_FRAMES.length;
+            this.invalidate();
+            this.tui.requestRender();
+        }, 80);
+        this.invalidate();
+        this.tui.requestRender();
+
+        this.fetchPage(this.after, controller.signal)
+            .then((page) => {
+                // Listings shift while paging, so the next page can repeat posts
+                const seen = new Set(this.postsToShow.map((post) => post.id));
+                const fresh = page.posts.filter((post) => !seen.has(post.id));
+                this.postsToShow.push(...fresh);
+                this.muted += page.muted || 0;
+                // A page that was entirely muted still has a cursor to follow
+                this.after = fresh.length > 0 || page.muted ? page.after : undefined;
+                this.applyView();
+            })
+            .catch((error) => {
+                if (controller.signal.aborted) return;
+                this.pageError = error instanceof Error ? error.message : String(error);
+            })
+            .finally(() => {
+                this.stopSpinner();
+                if (controller.signal.aborted) return;
+                this.pageController = undefined;
+                this.invalidate();
+                this.tui.requestRender();
+            });
+    }
+
+    private stopSpinner(): void {
+        if (this.spinnerInterval) {
+            clearInterval(this.spinnerInterval);
+            this.spinnerInterval = undefined;
         }
     }
 
+    /**
+     * Switch to the post detail view; Enter there continues to the comments
+     */
+    private openDetail(post: RedditPost): void {
+        this.detailView = new RedditPostDetailView(
+            post,
+            formatListingName(this.result),
+            this.theme,
+            () => {
+                this.invalidate();
+                this.tui.requestRender();
+            },
+            () => {
+                this.detailView = undefined;
+                this.invalidate();
+                this.tui.requestRender();
+            },
+            () => this.openComments(post),
+        );
+        this.invalidate();
+        this.tui.requestRender();
+    }
+
+    /**
+     * Switch to the comment thread view. Going back returns to the previous
+     * view (post list or detail) with its state intact; threads already
+     * fetched are served from the cache.
+     */
+    private openComments(post: RedditPost): void {
+        this.commentsView = new RedditCommentsView(
+            post,
+            this.theme,
+            this.commentCache,
+            () => {
+                this.invalidate();
+                this.tui.requestRender();
+            },
+            () => {
+                this.commentsView = undefined;
+                this.invalidate();
+                this.tui.requestRender();
+            },
+        );
+        this.invalidate();
+        this.tui.requestRender();
+    }
+
     /**
      * Scroll to ensure the selected post is visible
      */
@@ -299,12 +2808,12 @@ class RedditPostsComponent {
         // Header takes 2 lines
         currentLine += 2;
 
-        for (let i = 0; i < this.postsToShow.length; i++) {
+        for (let i = 0; i < this.visiblePosts.length; i++) {
             indices.push(currentLine);
-            const post = this.postsToShow[i];
+            const post = this.visiblePosts[i];
             const postLines = this.createPostLines(post, 78);
             currentLine += postLines.length;
-            if (i < this.postsToShow.length - 1) {
+            if (i < this.visiblePosts.length - 1) {
                 currentLine += 1; // Empty line between posts
             }
         }
@@ -319,28 +2828,61 @@ class RedditPostsComponent {
         const lines: string[] = [];
         const th = this.theme;
 
-        // Header
-        lines.push(` ${th.fg("accent", `r/${this.result.subreddit} · ${this.result.feedType}`)}`);
-        lines.push("");
+        // Header: listing name, then the filter prompt or active filters
+        lines.push(` ${th.fg("accent", `${formatListingName(this.result)} · ${this.result.feedType}`)}`);
+        lines.push(this.getFilterLine());
 
         // Generate post lines
-        for (let i = 0; i < this.postsToShow.length; i++) {
-            const post = this.postsToShow[i];
+        for (let i = 0; i < this.visiblePosts.length; i++) {
+            const post = this.visiblePosts[i];
             const isSelected = i === this.selectedIndex;
             const boxLines = this.createPostLines(post, 78, isSelected);
             lines.push(...boxLines);
-            if (i < this.postsToShow.length - 1) {
+            if (i < this.visiblePosts.length - 1) {
                 lines.push("");
             }
         }
+        if (this.visiblePosts.length === 0) {
+            lines.push(` ${th.fg("dim", "No posts match the current filters")}`);
+        }
 
         // Footer
         lines.push("");
-        lines.push(` ${th.fg("dim", "↑↓: navigate • Enter: open • Esc: close")}`);
+        if (this.pageController) {
+            lines.push(` ${th.fg("accent", SPINNER_FRAMES[this.spinnerFrame])} ${th.fg("dim", "Loading more posts...")}`);
+        } else if (this.pageError) {
+            lines.push(` ${th.fg("error", `Failed to load more: ${this.pageError}`)} ${th.fg("dim", "(n: retry)")}`);
+        } else if (!this.after) {
+            lines.push(` ${th.fg("dim", "End of listing")}`);
+        }
+        lines.push(` ${th.fg("dim", "↑↓: move • Enter: comments • d: details • i: insert • o: open • n: more • Esc")}`);
+        lines.push(` ${th.fg("dim", "/: filter • s: sort • m: min score • x: mark • e: export")}`);
 
         return lines;
     }
 
+    /**
+     * Second header line: the filter prompt while typing, otherwise a summary
+     * of active filters and how many posts they (and the mute list) hide
+     */
+    private getFilterLine(): string {
+        const th = this.theme;
+        if (this.editingFilter) {
+            const prompt = `${th.fg("accent", "/")}${this.filterText}${th.fg("accent", "▏")} ${th.fg("dim", "(Enter: keep • Esc: clear)")}`;
+            return ` ${truncateToWidth(prompt, 76)}`;
+        }
+
+        const parts: string[] = [];
+        if (this.filterText) parts.push(`/${this.filterText}`);
+        if (this.minScore > 0) parts.push(`▲ ≥ ${this.minScore}`);
+        if (this.sortMode !== "listing") parts.push(`sorted by ${this.sortMode}`);
+        const hidden = this.postsToShow.length - this.visiblePosts.length + this.muted;
+        if (hidden > 0) parts.push(`${hidden} hidden${this.muted ? ` (${this.muted} muted)` : ""}`);
+        if (this.selectedIds.size > 0) parts.push(`${this.selectedIds.size} marked for export`);
+
+        return parts.length ? ` ${th.fg("dim", truncateToWidth(parts.join(" · "), 76))}` : "";
+    }
+
     /**
      * Create lines for a single post
      */
@@ -364,11 +2906,15 @@ class RedditPostsComponent {
             lines.push(marker + th.fg("border", "│") + styledTitle + " ".repeat(Math.max(0, innerWidth - visibleWidth(titleLine))) + th.fg("border", "│"));
         }
 
-        // Empty line
-        lines.push(th.fg("border", " │") + " ".repeat(boxWidth - 3) + th.fg("border", "│"));
+        // Badges line (flair, NSFW/spoiler, link domain), or an empty line;
+        // the gutter shows a check mark on posts marked for export
+        const badges = truncateToWidth(formatPostBadges(post, th), innerWidth);
+        const check = this.selectedIds.has(post.id) ? th.fg("success", "✓") : " ";
+        lines.push(check + th.fg("border", "│") + badges + " ".repeat(Math.max(0, innerWidth - visibleWidth(badges))) + th.fg("border", "│"));
 
-        // Bottom info line: author + time on left, upvotes on right
-        const authorTime = `${post.author} · ${formatRelativeTime(post.published)}`;
+        // Bottom info line: author + time (+ comment count) on left, upvotes on right
+        const comments = post.numComments !== undefined ? ` · ${post.numComments} comments` : "";
+        const authorTime = `${post.author} · ${formatRelativeTime(post.published)}${comments}`;
         const upvotes = post.score > 0 ? `▲ ${post.score}` : "▲ -";
         const middleSpace = innerWidth - visibleWidth(authorTime) - visibleWidth(upvotes);
 
@@ -398,40 +2944,18 @@ class RedditPostsComponent {
             return this.cachedLines;
         }
 
-        const allLines = this.getAllLines();
-        const visibleLines = allLines.slice(this.scrollOffset, this.scrollOffset + this.maxVisibleLines);
-        const th = this.theme;
-
-        // Build box around visible content
-        const result: string[] = [];
-        const innerW = Math.max(1, width - 2);
-        const padLine = (s: string) => truncateToWidth(s, innerW, "...", true);
-
-        const title = truncateToWidth(` Reddit: ${this.postsToShow.length} posts `, innerW);
-        const titlePad = Math.max(0, innerW - visibleWidth(title));
-
-        result.push(th.fg("border", "╭") + th.fg("accent", title) + th.fg("border", "─".repeat(titlePad) + "╮"));
-
-        // Scroll indicators
-        const canScrollUp = this.scrollOffset > 0;
-        const canScrollDown = this.scrollOffset < allLines.length - this.maxVisibleLines;
-        const scrollInfo = `↑${this.scrollOffset}/${allLines.length}↓`;
-
-        if (canScrollUp || canScrollDown) {
-            result.push(th.fg("border", "│") + padLine(th.fg("dim", ` ${scrollInfo}`)) + th.fg("border", "│"));
-        }
-
-        // Visible content lines
-        for (const line of visibleLines) {
-            result.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
-        }
-
-        // Pad to maxVisibleLines
-        for (let i = visibleLines.length; i < this.maxVisibleLines; i++) {
-            result.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
-        }
-
-        result.push(th.fg("border", "╰" + "─".repeat(innerW) + "╯"));
+        const result = this.commentsView
+            ? this.commentsView.render(width)
+            : this.detailView
+            ? this.detailView.render(width)
+            : renderOverlayFrame(
+                this.theme,
+                width,
+                ` Reddit: ${this.visiblePosts.length} posts `,
+                this.getAllLines(),
+                this.scrollOffset,
+                this.maxVisibleLines,
+            );
 
         this.cachedWidth = width;
         this.cachedLines = result;
@@ -442,64 +2966,295 @@ class RedditPostsComponent {
         this.cachedWidth = undefined;
         this.cachedLines = undefined;
     }
+
+    dispose(): void {
+        this.commentsView?.dispose();
+        this.commentsView = undefined;
+        this.detailView = undefined;
+        this.stopSpinner();
+        this.pageController?.abort();
+    }
+}
+
+/**
+ * Display a listing in a scrollable overlay above the input line
+ */
+async function showPostsOverlay(
+    ctx: ExtensionCommandContext,
+    result: JSONParseResult,
+    limit: number,
+    fetchPage: (after: string, signal: AbortSignal) => Promise<JSONParseResult>,
+): Promise<void> {
+    const config = await loadConfig();
+    await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+        const component = new RedditPostsComponent(
+            result,
+            limit,
+            theme,
+            tui,
+            () => done(),
+            (text) => ctx.ui.pasteToEditor(text),
+            (exported, threads) => {
+                exportListing(ctx.cwd, exported, threads, config.export)
+                    .then((path) => ctx.ui.notify(describeExport(path, exported, threads), "info"))
+                    .catch((error) => {
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        ctx.ui.notify(`Export failed: ${errorMessage}`, "error");
+                    });
+            },
+            fetchPage,
+            config.minScore,
+        );
+        return {
+            render: (w) => component.render(w),
+            invalidate: () => component.invalidate(),
+            handleInput: (data) => { component.handleInput(data); tui.requestRender(); },
+            dispose: () => component.dispose(),
+        };
+    }, {
+        overlay: true,
+        overlayOptions: {
+            width: 80,
+            height: 80,
+            anchor: "bottom-left",
+            offsetY: -8,
+            margin: { top: 2, right: 2, bottom: 4, left: 2 },
+        },
+    });
 }
 
 export default function (pi: ExtensionAPI) {
+    // Let the agent read subreddits (and optionally top comments) on its own
+    pi.registerTool({
+        name: "reddit",
+        label: "Reddit",
+        description:
+            `Read posts from a subreddit, optionally with each post's top comments. ` +
+            `Self-text is clipped to ${TOOL_SELFTEXT_CHARS} chars and comments to ${TOOL_COMMENT_CHARS} chars; ` +
+            `the whole result is truncated to ${DEFAULT_MAX_LINES} lines or ${formatSize(DEFAULT_MAX_BYTES)}.`,
+        parameters: RedditToolParams,
+
+        async execute(_toolCallId, params, signal, _onUpdate, _ctx) {
+            const query: RedditQuery = {
+                kind: "subreddit",
+                name: params.subreddit.replace(/^\/?r\//i, ""),
+                feedType: params.feed || "hot",
+                timeFilter: params.time,
+                limit: Math.min(MAX_LIMIT, Math.max(1, Math.floor(params.limit ?? 10))),
+            };
+            const commentsPerPost = Math.min(10, Math.max(0, Math.floor(params.comments ?? 0)));
+
+            const fetchResult = await fetchRedditPosts(query, params.after, signal);
+            const { result } = fetchResult;
+
+            // Fetch threads one at a time to stay polite with Reddit; a thread
+            // that fails is noted on its post instead of failing the listing
+            const threads = new Map<string, RedditCommentThread>();
+            const threadErrors = new Map<string, string>();
+            if (commentsPerPost > 0) {
+                for (const post of result.posts) {
+                    try {
+                        threads.set(post.id, await fetchRedditComments(post.id, commentsPerPost, signal));
+                    } catch (error) {
+                        if (signal?.aborted) throw error;
+                        threadErrors.set(post.id, error instanceof Error ? error.message : String(error));
+                    }
+                }
+            }
+
+            let output = formatPostsForTool(result, threads, commentsPerPost, threadErrors);
+            if (fetchResult.stale) {
+                output = `[Reddit unreachable; showing cached listing (${describeSource(fetchResult)})]\n\n${output}`;
+            }
+
+            const truncation = truncateHead(output, {
+                maxLines: DEFAULT_MAX_LINES,
+                maxBytes: DEFAULT_MAX_BYTES,
+            });
+
+            let text = truncation.content;
+            if (truncation.truncated) {
+                text += `\n\n[Output truncated: showing ${truncation.outputLines} of ${truncation.totalLines} lines. Request fewer posts or comments.]`;
+            }
+
+            return {
+                content: [{ type: "text", text }],
+                details: {
+                    subreddit: result.subreddit,
+                    feedType: result.feedType,
+                    postCount: result.posts.length,
+                    source: fetchResult.source,
+                    fetchedAt: fetchResult.fetchedAt,
+                    truncated: truncation.truncated,
+                } as RedditToolDetails,
+            };
+        },
+
+        renderCall(args, theme, _context) {
+            let text = theme.fg("toolTitle", theme.bold("reddit ")) + theme.fg("accent", `r/${args.subreddit}`);
+            text += theme.fg("muted", ` ${args.feed || "hot"}`);
+            if (args.time) text += theme.fg("dim", ` ${args.time}`);
+            if (args.comments) text += theme.fg("dim", ` +${args.comments} comments`);
+            return new Text(text, 0, 0);
+        },
+    });
+
+    // Subreddits and users recently opened with /reddit, most recent first
+    const recentTargets = loadRecentTargets();
+
+    const rememberTarget = (query: RedditQuery) => {
+        if (query.kind === "search" && query.name === "all") return;
+        const target = query.kind === "user" ? `u/${query.name}` : query.name;
+        const existing = recentTargets.findIndex((t) => t.toLowerCase() === target.toLowerCase());
+        if (existing >= 0) recentTargets.splice(existing, 1);
+        recentTargets.unshift(target);
+        recentTargets.splice(RECENT_LIMIT);
+        void saveRecentTargets(recentTargets);
+    };
+
+    // Poll watched subreddits in the background while a session is open
+    const watcher = new RedditWatcher();
+
+    pi.on("session_start", async (_event, ctx) => {
+        if (ctx.hasUI) watcher.start(ctx);
+    });
+
+    pi.on("session_switch", async (_event, ctx) => {
+        if (ctx.hasUI) watcher.start(ctx);
+    });
+
+    pi.on("session_shutdown", async () => {
+        watcher.stop();
+    });
+
     // Register a command that shows posts in a scrollable overlay at the bottom
     pi.registerCommand("reddit", {
         description:
-            "Display Reddit posts",
+            "Display Reddit posts: /reddit [sub|a+b|u/name] [feed] [time] [limit], /reddit [sub] search <query>, /reddit export|watch|inbox|mute",
+        getArgumentCompletions: (argumentPrefix) => getRedditArgumentCompletions(argumentPrefix, recentTargets),
         handler: async (args, ctx) => {
-            const parts = args?.split(/\s+/) || [];
-            const subreddit = parts[0] || "programming";
-            const feedType = parts[1] || "hot";
-            const limit = Math.min(25, Math.max(1, parseInt(parts[2], 10) || 5));
+            const tokens = tokenizeArgs(args || "");
+            const subcommand = tokens[0]?.toLowerCase();
+
+            if (subcommand === "watch") {
+                try {
+                    await handleWatchCommand(tokens.slice(1), ctx, watcher);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    ctx.ui.notify(`Error: ${errorMessage}`, "error");
+                }
+                return;
+            }
+
+            if (subcommand === "mute" || subcommand === "unmute") {
+                try {
+                    await handleMuteCommand(subcommand === "unmute", tokens.slice(1), ctx);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    ctx.ui.notify(`Error: ${errorMessage}`, "error");
+                }
+                return;
+            }
+
+            if (subcommand === "export") {
+                let parsed: ReturnType<typeof parseExportArgs>;
+                try {
+                    parsed = parseExportArgs((args || "").trim().replace(/^export\s*/i, ""), (await loadConfig()).export);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    ctx.ui.notify(`Error: ${errorMessage}`, "error");
+                    return;
+                }
+                const { query, options, comments } = parsed;
+                ctx.ui.setStatus("reddit", `${SPINNER_FRAMES[0]} Exporting ${describeQuery(query)}...`);
+
+                try {
+                    const { result } = await fetchRedditPosts(query);
+                    const threads = new Map<string, RedditCommentThread>();
+                    if (comments > 0 && options.fields.includes("comments")) {
+                        for (const post of result.posts) {
+                            threads.set(post.id, await fetchRedditComments(post.id, comments));
+                        }
+                    }
+                    const path = await exportListing(ctx.cwd, result, threads, options);
+                    watcher.updateStatus(ctx);
+                    ctx.ui.notify(describeExport(path, result, threads), "info");
+                } catch (error) {
+                    watcher.updateStatus(ctx);
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    ctx.ui.notify(`Error: ${errorMessage}`, "error");
+                }
+                return;
+            }
+
+            if (subcommand === "inbox" && tokens.length === 1) {
+                const posts = [...watcher.getInbox()];
+                if (posts.length === 0) {
+                    ctx.ui.notify("No new posts from watched subreddits", "info");
+                    return;
+                }
+                await watcher.markInboxRead();
+                const inbox: JSONParseResult = {
+                    subreddit: "inbox",
+                    label: "Inbox",
+                    feedType: "new",
+                    updated: new Date().toISOString(),
+                    posts,
+                };
+                // The inbox is a single page; there is no cursor to follow
+                await showPostsOverlay(ctx, inbox, posts.length, async () => ({ ...inbox, posts: [] }));
+                return;
+            }
+
+            let query: RedditQuery;
+            try {
+                query = parseRedditArgs(args || "");
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                ctx.ui.notify(`Error: ${errorMessage}`, "error");
+                return;
+            }
+            const name = describeQuery(query);
 
             // Show loading status with spinner
-            ctx.ui.setStatus("reddit", `${SPINNER_FRAMES[0]} Loading r/${subreddit}...`);
+            ctx.ui.setStatus("reddit", `${SPINNER_FRAMES[0]} Loading ${name}...`);
 
             // Animate spinner
             let frame = 0;
             const spinnerInterval = setInterval(() => {
                 frame = (frame + 1) % SPINNER_FRAMES.length;
-                ctx.ui.setStatus("reddit", `${SPINNER_FRAMES[frame]} Loading r/${subreddit}...`);
+                ctx.ui.setStatus("reddit", `${SPINNER_FRAMES[frame]} Loading ${name}...`);
             }, 80);
 
             try {
-                const fetchResult = await fetchRedditPosts(subreddit, feedType, undefined, limit);
+                const fetchResult = await fetchRedditPosts(query);
 
                 clearInterval(spinnerInterval);
-                ctx.ui.setStatus("reddit", undefined); // Clear status
+                watcher.updateStatus(ctx); // Restore the watch badge (or clear)
 
-                const { result, source } = fetchResult;
+                const { result } = fetchResult;
+                rememberTarget(query);
 
                 // Show notification with count and source
-                ctx.ui.notify(
-                    `r/${result.subreddit}: ${result.posts.length} ${result.feedType} posts (${source.toUpperCase()})`,
-                    "success"
-                );
+                if (fetchResult.stale) {
+                    ctx.ui.notify(
+                        `${formatListingName(result)}: Reddit unreachable, showing ${result.posts.length} cached ${result.feedType} posts (${describeSource(fetchResult)})`,
+                        "warning"
+                    );
+                } else {
+                    ctx.ui.notify(
+                        `${formatListingName(result)}: ${result.posts.length} ${result.feedType} posts (${describeSource(fetchResult)})`,
+                        "success"
+                    );
+                }
 
                 // Display posts in a scrollable overlay above the input line
-                await ctx.ui.custom<void>((tui, theme, _kb, done) => {
-                    const component = new RedditPostsComponent(result, limit, theme, tui, () => done());
-                    return {
-                        render: (w) => component.render(w),
-                        invalidate: () => component.invalidate(),
-                        handleInput: (data) => { component.handleInput(data); tui.requestRender(); },
-                    };
-                }, {
-                    overlay: true,
-                    overlayOptions: {
-                        width: 80,
-                        height: 80,
-                        anchor: "bottom-left",
-                        offsetY: -8,
-                        margin: { top: 2, right: 2, bottom: 4, left: 2 },
-                    },
-                });
+                await showPostsOverlay(ctx, result, query.limit, async (after, signal) =>
+                    (await fetchRedditPosts(query, after, signal)).result
+                );
             } catch (error) {
                 clearInterval(spinnerInterval);
-                ctx.ui.setStatus("reddit", undefined);
+                watcher.updateStatus(ctx);
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 ctx.ui.notify(`Error: ${errorMessage}`, "error");
             }
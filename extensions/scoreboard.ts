@@ -0,0 +1,372 @@
+/**
+ * Scoreboard Extension
+ *
+ * Tracks evaluator scores across the rounds of a generator–evaluator chain run
+ * by chain-runner.ts. After every design-evaluator or adversarial-qa step (or
+ * any step writing evaluation-report.md or qa-report.md) the report is parsed:
+ *
+ *   | Design quality | 7/10 | HIGH |     → criterion score and weight
+ *   - **Search works**: FAIL            → per-criterion verdict
+ *   **Overall: FAIL** / Verdict: PASS   → round verdict
+ *
+ * with chain-runner's parseReport (the same parse its threshold check uses)
+ * and appended to scores.json in the run's directory. Before the next
+ * non-evaluator step (the generator or implementer) a short trend summary is
+ * added to its prompt, so "trending up: refine, flat or declining: pivot" is
+ * based on actual numbers.
+ *
+ * /scores [chain] opens the recorded runs of the working directory: one column
+ * per round, per-criterion trends, the weighted total (HIGH 3, MEDIUM 2, LOW 1)
+ * and the verdicts. ←/→ switches between runs.
+ */
+
+import type { ExtensionAPI, ExtensionContext, Theme } from "@mariozechner/pi-coding-agent";
+import { matchesKey, truncateToWidth, visibleWidth, type TUI } from "@mariozechner/pi-tui";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, join, resolve } from "path";
+import { parseReport, type ChainStepEvent, type ReportScores } from "./chain-runner.js";
+
+interface RoundScores extends ReportScores {
+	round: number;
+	at: number;
+	agent: string;
+	report: string;
+}
+
+interface ScoreHistory {
+	chain: string;
+	dir: string;
+	rounds: RoundScores[];
+}
+
+const RUNS_DIR = join(".pi", "chain-runs");
+const HISTORY_FILE = "scores.json";
+const EVALUATORS = ["design-evaluator", "adversarial-qa"];
+const REPORT_FILES = ["evaluation-report.md", "qa-report.md"];
+const SPARKS = "▁▂▃▄▅▆▇█";
+
+function loadHistory(dir: string): ScoreHistory | undefined {
+	try {
+		return JSON.parse(readFileSync(join(dir, HISTORY_FILE), "utf8"));
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Every recorded run under .pi/chain-runs, newest first
+ */
+function loadAllHistories(cwd: string): ScoreHistory[] {
+	const runsDir = resolve(cwd, RUNS_DIR);
+	let dirs: string[];
+	try {
+		dirs = readdirSync(runsDir);
+	} catch {
+		return [];
+	}
+	const latest = (history: ScoreHistory) => history.rounds[history.rounds.length - 1]?.at ?? 0;
+	return dirs
+		.flatMap((dir) => {
+			const history = loadHistory(join(runsDir, dir));
+			return history && history.rounds.length > 0 ? [history] : [];
+		})
+		.sort((a, b) => latest(b) - latest(a));
+}
+
+/**
+ * Direction of the last change: "↑", "↓" or "→" (changes under 0.25 count as flat)
+ */
+function trendArrow(values: number[]): string {
+	if (values.length < 2) return "";
+	const delta = values[values.length - 1] - values[values.length - 2];
+	return delta > 0.25 ? "↑" : delta < -0.25 ? "↓" : "→";
+}
+
+/**
+ * "▃▅▇" for scores 1-10
+ */
+function sparkline(values: number[]): string {
+	return values.map((value) => SPARKS[Math.min(SPARKS.length - 1, Math.max(0, Math.round(((value - 1) / 9) * (SPARKS.length - 1))))]).join("");
+}
+
+function passedCount(round: RoundScores): string {
+	return `${round.verdicts.filter((item) => item.pass).length}/${round.verdicts.length}`;
+}
+
+/**
+ * Criterion names across all rounds, in the order they first appear
+ */
+function criteriaOf(rounds: RoundScores[], kind: "scores" | "verdicts"): string[] {
+	return [...new Set(rounds.flatMap((round) => round[kind].map((item) => item.criterion)))];
+}
+
+/**
+ * The compact trend fed to the next generator step
+ */
+function summarizeTrend(history: ScoreHistory): string | undefined {
+	const rounds = history.rounds.slice(-4);
+	if (rounds.length === 0) return undefined;
+
+	const span = rounds.length > 1 ? `rounds ${rounds[0].round}-${rounds[rounds.length - 1].round}` : `round ${rounds[0].round}`;
+	const lines = [`## Score trend (${span} of this run)`];
+	const totals = rounds.flatMap((round) => (round.total !== undefined ? [round.total] : []));
+	if (totals.length > 0) {
+		lines.push(`- Weighted total: ${totals.join(" → ")} ${trendArrow(totals)}`.trimEnd());
+		for (const criterion of criteriaOf(rounds, "scores")) {
+			const values = rounds.flatMap((round) => round.scores.filter((item) => item.criterion === criterion).map((item) => item.score));
+			lines.push(`- ${criterion}: ${values.join(" → ")} ${trendArrow(values)}`.trimEnd());
+		}
+	}
+
+	const judged = rounds.filter((round) => round.verdicts.length > 0);
+	if (judged.length > 0) {
+		const passed = judged.map((round) => round.verdicts.filter((item) => item.pass).length);
+		lines.push(`- Criteria passed: ${judged.map(passedCount).join(" → ")} ${trendArrow(passed)}`.trimEnd());
+		const failing = judged[judged.length - 1].verdicts.filter((item) => !item.pass).map((item) => item.criterion);
+		if (failing.length > 0) lines.push(`- Still failing: ${failing.join("; ")}`);
+	}
+
+	const last = rounds[rounds.length - 1];
+	if (last.verdict) lines.push(`- Last verdict: ${last.verdict}`);
+
+	const progress = totals.length > 0 ? totals : judged.map((round) => round.verdicts.filter((item) => item.pass).length);
+	if (progress.length >= 2) {
+		lines.push(
+			trendArrow(progress) === "↑"
+				? "Scores are trending upward: refine the current direction."
+				: "Scores are flat or declining: consider a fundamentally different approach.",
+		);
+	}
+	return lines.join("\n");
+}
+
+class ScoreboardComponent {
+	private histories: ScoreHistory[];
+	private theme: Theme;
+	private tui: TUI;
+	private done: () => void;
+	private runIndex = 0;
+	private scrollOffset = 0;
+	private maxVisibleLines = 18;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+
+	constructor(histories: ScoreHistory[], theme: Theme, tui: TUI, done: () => void) {
+		this.histories = histories;
+		this.theme = theme;
+		this.tui = tui;
+		this.done = done;
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c") || matchesKey(data, "q")) {
+			this.done();
+			return;
+		}
+
+		if (matchesKey(data, "left")) {
+			this.runIndex = Math.max(0, this.runIndex - 1);
+			this.scrollOffset = 0;
+		} else if (matchesKey(data, "right")) {
+			this.runIndex = Math.min(this.histories.length - 1, this.runIndex + 1);
+			this.scrollOffset = 0;
+		} else if (matchesKey(data, "up")) {
+			this.scrollOffset = Math.max(0, this.scrollOffset - 1);
+		} else if (matchesKey(data, "down")) {
+			this.scrollOffset = this.scrollOffset + 1;
+		} else {
+			return;
+		}
+
+		this.invalidate();
+		this.tui.requestRender();
+	}
+
+	private getAllLines(innerWidth: number): string[] {
+		const th = this.theme;
+		const history = this.histories[this.runIndex];
+		const labelWidth = 26;
+		const columnWidth = 6;
+		// Show the latest rounds that fit next to the criterion names and the trend
+		const fit = Math.max(1, Math.floor((innerWidth - labelWidth - 12) / columnWidth));
+		const rounds = history.rounds.slice(-fit);
+		const column = (text: string) => text.padStart(columnWidth);
+		const label = (text: string) => truncateToWidth(text, labelWidth - 2).padEnd(labelWidth - 2);
+
+		const lines: string[] = [];
+		const started = new Date(rounds[0].at).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+		const count = `${history.rounds.length} round${history.rounds.length === 1 ? "" : "s"}`;
+		lines.push(` ${th.fg("accent", history.chain)}${th.fg("dim", ` · ${count} · ${started} · ${basename(history.dir)}`)}`);
+		lines.push("");
+		const scoreCriteria = criteriaOf(rounds, "scores");
+		const verdictCriteria = criteriaOf(rounds, "verdicts");
+		const roundsHeader = rounds.map((round) => column(`R${round.round}`)).join("");
+		lines.push(th.fg("dim", ` ${label("Criterion")} ${scoreCriteria.length > 0 ? "W" : " "}${roundsHeader}${scoreCriteria.length > 0 ? "  Trend" : ""}`));
+
+		for (const criterion of scoreCriteria) {
+			const entries = rounds.map((round) => round.scores.find((item) => item.criterion === criterion));
+			const values = entries.flatMap((entry) => (entry ? [entry.score] : []));
+			const weight = entries.find(Boolean)?.weight ?? 1;
+			const cells = entries
+				.map((entry) => {
+					if (!entry) return th.fg("dim", column("·"));
+					return th.fg(entry.score < 6 ? "error" : entry.score >= 8 ? "success" : "text", column(String(entry.score)));
+				})
+				.join("");
+			const letter = weight >= 3 ? "H" : weight === 2 ? "M" : "L";
+			lines.push(` ${label(criterion)} ${th.fg("dim", letter)}${cells}  ${th.fg("muted", sparkline(values))} ${trendArrow(values)}`);
+		}
+
+		const totals = rounds.map((round) => round.total);
+		if (totals.some((total) => total !== undefined)) {
+			const values = totals.flatMap((total) => (total !== undefined ? [total] : []));
+			const cells = totals.map((total) => column(total !== undefined ? total.toFixed(1) : "·")).join("");
+			lines.push(th.fg("accent", ` ${label("Weighted total")}  ${cells}  ${sparkline(values)} ${trendArrow(values)}`));
+		}
+
+		if (verdictCriteria.length > 0) {
+			if (scoreCriteria.length > 0) lines.push("");
+			for (const criterion of verdictCriteria) {
+				const cells = rounds
+					.map((round) => {
+						const entry = round.verdicts.find((item) => item.criterion === criterion);
+						if (!entry) return th.fg("dim", column("·"));
+						return entry.pass ? th.fg("success", column("✓")) : th.fg("error", column("✗"));
+					})
+					.join("");
+				lines.push(` ${label(criterion)}  ${cells}`);
+			}
+			lines.push(` ${label("Passed")}  ${rounds.map((round) => column(round.verdicts.length > 0 ? passedCount(round) : "·")).join("")}`);
+		}
+
+		const verdicts = rounds.map((round) => {
+			if (!round.verdict) return th.fg("dim", column("·"));
+			return th.fg(round.verdict === "PASS" ? "success" : "error", column(round.verdict));
+		});
+		lines.push(` ${label("Verdict")}  ${verdicts.join("")}`);
+
+		lines.push("");
+		const runs = this.histories.length > 1 ? `←→: run ${this.runIndex + 1}/${this.histories.length} • ` : "";
+		lines.push(` ${th.fg("dim", `${runs}↑↓: scroll • Esc: close`)}`);
+		return lines;
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const th = this.theme;
+		const innerW = Math.max(1, width - 2);
+		const allLines = this.getAllLines(innerW);
+		this.scrollOffset = Math.min(this.scrollOffset, Math.max(0, allLines.length - this.maxVisibleLines));
+		const visibleLines = allLines.slice(this.scrollOffset, this.scrollOffset + this.maxVisibleLines);
+		const padLine = (line: string) => truncateToWidth(line, innerW, "...", true);
+
+		const title = truncateToWidth(" Scores ", innerW);
+		const lines = [th.fg("border", "╭") + th.fg("accent", title) + th.fg("border", "─".repeat(Math.max(0, innerW - visibleWidth(title))) + "╮")];
+		for (const line of visibleLines) {
+			lines.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
+		}
+		for (let i = visibleLines.length; i < this.maxVisibleLines; i++) {
+			lines.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
+		}
+		const scrollInfo = allLines.length > this.maxVisibleLines ? ` ${this.scrollOffset + 1}-${Math.min(allLines.length, this.scrollOffset + this.maxVisibleLines)}/${allLines.length} ` : "";
+		lines.push(th.fg("border", "╰" + "─".repeat(Math.max(0, innerW - scrollInfo.length))) + th.fg("dim", scrollInfo) + th.fg("border", "╯"));
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+}
+
+export default function (pi: ExtensionAPI) {
+	// Events arrive outside any handler, so keep the latest context for notifications
+	let currentCtx: ExtensionContext | undefined;
+
+	const isReportStep = (event: ChainStepEvent) =>
+		EVALUATORS.includes(event.agent) || (event.output !== undefined && REPORT_FILES.includes(basename(event.output)));
+
+	// Handlers must stay synchronous: chain-runner reads `context` right after emitting
+	pi.events.on("chain:step_start", (data) => {
+		const event = data as ChainStepEvent;
+		if (isReportStep(event)) return;
+		const history = loadHistory(event.dir);
+		const summary = history ? summarizeTrend(history) : undefined;
+		if (summary) event.context.push(summary);
+	});
+
+	pi.events.on("chain:step_end", (data) => {
+		const event = data as ChainStepEvent;
+		if (!isReportStep(event) || !event.output || !existsSync(event.output)) return;
+
+		const parsed = parseReport(readFileSync(event.output, "utf8"));
+		if (parsed.scores.length === 0 && parsed.verdicts.length === 0 && !parsed.verdict) return;
+
+		const history = loadHistory(event.dir) ?? { chain: event.chain, dir: event.dir, rounds: [] };
+		const round: RoundScores = { round: event.round, at: Date.now(), agent: event.agent, report: basename(event.output), ...parsed };
+		history.rounds = [...history.rounds.filter((item) => item.round !== event.round), round];
+		writeFileSync(join(event.dir, HISTORY_FILE), JSON.stringify(history, null, 2));
+
+		const previous = history.rounds[history.rounds.length - 2];
+		const parts: string[] = [];
+		if (round.total !== undefined) {
+			const change = previous?.total !== undefined ? ` ${trendArrow([previous.total, round.total])} from ${previous.total}` : "";
+			parts.push(`total ${round.total}${change}`);
+		}
+		if (round.verdicts.length > 0) parts.push(`${passedCount(round)} passed`);
+		if (round.verdict) parts.push(round.verdict);
+		currentCtx?.ui.notify(`${event.chain} round ${event.round}: ${parts.join(" · ")}`, round.verdict === "FAIL" ? "warning" : "info");
+	});
+
+	pi.on("session_start", async (_event, ctx) => {
+		currentCtx = ctx;
+	});
+
+	pi.on("session_switch", async (_event, ctx) => {
+		currentCtx = ctx;
+	});
+
+	pi.registerCommand("scores", {
+		description: "Show evaluator scores across the rounds of chain runs (/scores [chain])",
+		getArgumentCompletions: (prefix) => {
+			const chains = [...new Set(loadAllHistories(currentCtx?.cwd ?? process.cwd()).map((history) => history.chain))];
+			const matches = chains.filter((chain) => chain.startsWith(prefix.trim()));
+			return matches.length > 0 ? matches.map((chain) => ({ value: chain, label: chain })) : null;
+		},
+		handler: async (args, ctx) => {
+			currentCtx = ctx;
+			const chain = args?.trim();
+			const histories = loadAllHistories(ctx.cwd).filter((history) => !chain || history.chain === chain);
+			if (histories.length === 0) {
+				ctx.ui.notify(chain ? `No scores recorded for ${chain}` : "No scores recorded yet (run a chain with /chain)", "info");
+				return;
+			}
+
+			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+				const component = new ScoreboardComponent(histories, theme, tui, () => done());
+				return {
+					render: (w) => component.render(w),
+					invalidate: () => component.invalidate(),
+					handleInput: (data) => {
+						component.handleInput(data);
+						tui.requestRender();
+					},
+				};
+			}, {
+				overlay: true,
+				overlayOptions: {
+					width: 80,
+					anchor: "bottom-left",
+					offsetY: -8,
+					margin: { top: 2, right: 2, bottom: 4, left: 2 },
+				},
+			});
+		},
+	});
+}
@@ -4,53 +4,1031 @@
  * A tiny extension of the original status-line from:
  * https://github.com/badlogic/pi-mono/blob/main/packages/coding-agent/examples/extensions/status-line.ts
  *
- * Adds timestamps to status messages. Timestamps are captured when status is set
- * and don't auto-refresh. Format: "09:35:31 Ready" (24-hour time, no date)
+ * Adds timestamps to status messages. Default format: "09:35:31 Ready" (24-hour time, no date).
+ * While a turn runs its duration ticks every second; finished turns show how
+ * long they took ("Turn 23 complete in 2m14s"), followed by the session's
+ * elapsed time and average turn duration.
+ *
+ * Completed turns also show their token usage and cost next to the session
+ * totals ("↑1.2k ↓340 R12k $0.012 · Σ 45k $0.31"). An optional budget in
+ * ~/.pi/agent/status-line.json colors the totals and notifies when the session
+ * nears and crosses it:
+ *
+ *   { "budget": { "cost": 5, "tokens": 2000000, "warnAt": 0.8 } }
+ *
+ * Turns running longer than `alerts.longTurnSeconds` (default 300) turn the
+ * status yellow and notify; when such a turn completes the terminal gets a bell
+ * or an OSC 9/777 desktop notification (`alerts.terminal`: "bell", "osc9",
+ * "osc777" or "off"). Once the agent has been waiting for input for
+ * `alerts.idleSeconds` (default 60) the status shows for how long.
+ *
+ * Every turn is kept in a history: /turns opens it as a scrollable timeline
+ * (start/end, duration, tools called, errors, cost) and `e` there, or
+ * /turns export, writes it to a Markdown file in the working directory.
+ *
+ * Turns are stored in the session as custom entries, so the turn number, last
+ * completion time, usage and /turns history are rebuilt from the current branch
+ * after resume, fork, tree navigation and restarts.
+ *
+ * The layout is configurable. <cwd>/.pi/status-line.json overrides the global
+ * file key by key, and `templates` holds one template per state:
+ *
+ *   {
+ *     "templates": { "complete": "{time} {icon}Turn {turn}[ in {duration}][ · {git_branch}][ · {total}]" },
+ *     "format": { "clock": "12h", "seconds": false, "date": "short" },
+ *     "colors": { "git_branch": "accent", "text": "muted" }
+ *   }
+ *
+ * `{name}` inserts a segment and `[...]` is dropped when a segment inside it is
+ * empty. Segments: time, date, ago, icon, turn, duration, session, avg, idle,
+ * usage, total, model, cwd, git_branch. `colors` takes theme colors per segment
+ * (`text` colors the literal text); warning and budget colors still win.
+ * /status-line previews the templates and /status-line reload re-reads the files.
  */
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import { getAgentDir } from "@mariozechner/pi-coding-agent";
+import { matchesKey, truncateToWidth, visibleWidth, type TUI } from "@mariozechner/pi-tui";
+import type { ExtensionAPI, ExtensionContext, Theme, ThemeColor } from "@mariozechner/pi-coding-agent";
+import { readFileSync, statSync } from "fs";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+
+interface UsageTotals {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	tokens: number;
+	cost: number;
+}
+
+// Session limits; either may be omitted. warnAt is the fraction that turns the totals yellow.
+interface Budget {
+	cost?: number;
+	tokens?: number;
+	warnAt: number;
+}
+
+// One entry in the /turns timeline
+interface TurnRecord {
+	turn: number;
+	startedAt: number;
+	endedAt?: number;
+	// Tool names in call order
+	tools: string[];
+	toolErrors: number;
+	status: "running" | "done" | "error" | "aborted";
+	usage?: UsageTotals;
+}
+
+// Thresholds for long-turn and idle alerts
+interface Alerts {
+	longTurnSeconds: number;
+	idleSeconds: number;
+	terminal: "bell" | "osc9" | "osc777" | "off";
+}
+
+// How {time} and {date} are written
+interface TimeFormat {
+	clock: "24h" | "12h";
+	seconds: boolean;
+	date: "iso" | "short" | "long";
+}
+
+type StatusState = "ready" | "running" | "complete";
+
+// Segment text and, for warning/budget states, a color that overrides the configured one
+type Segments = Partial<Record<string, { text: string; color?: ThemeColor }>>;
+
+interface Settings {
+	budget?: Budget;
+	alerts: Alerts;
+	format: TimeFormat;
+	templates: Record<StatusState, string>;
+	colors: Partial<Record<string, ThemeColor>>;
+	// Files the settings were read from and problems found in them
+	sources: string[];
+	warnings: string[];
+}
+
+const SETTINGS_PATH = join(getAgentDir(), "status-line.json");
+const PROJECT_SETTINGS_PATH = join(".pi", "status-line.json");
+const TURN_ENTRY_TYPE = "status-timed-turn";
 
-function formatTime(date: Date = new Date()): string {
+const ALERT_TERMINALS: Alerts["terminal"][] = ["bell", "osc9", "osc777", "off"];
+const DATE_STYLES: TimeFormat["date"][] = ["iso", "short", "long"];
+
+const SEGMENT_NAMES = [
+	"time",
+	"date",
+	"ago",
+	"icon",
+	"turn",
+	"duration",
+	"session",
+	"avg",
+	"idle",
+	"usage",
+	"total",
+	"model",
+	"cwd",
+	"git_branch",
+];
+
+const DEFAULT_FORMAT: TimeFormat = { clock: "24h", seconds: true, date: "iso" };
+
+// Reproduce the original layout
+const DEFAULT_TEMPLATES: Record<StatusState, string> = {
+	ready: "{time} Ready",
+	running: "{time} {icon}Turn {turn}... {duration}[ · session {session}][ · avg {avg}][ · {total}]",
+	complete:
+		"{time} {icon}Turn {turn} complete[ in {duration}][ · waiting for input {idle}][ · session {session}][ · avg {avg}][ · {usage}][ · {total}]",
+};
+
+const DEFAULT_COLORS: Partial<Record<string, ThemeColor>> = { idle: "warning" };
+
+// Theme colors that make sense for status text
+const STATUS_COLORS: ThemeColor[] = [
+	"accent",
+	"border",
+	"borderAccent",
+	"borderMuted",
+	"success",
+	"error",
+	"warning",
+	"muted",
+	"dim",
+	"text",
+	"mdHeading",
+	"mdLink",
+	"mdCode",
+	"syntaxKeyword",
+	"syntaxFunction",
+	"syntaxString",
+	"syntaxNumber",
+	"syntaxType",
+];
+
+function formatTime(date: Date = new Date(), format: TimeFormat = DEFAULT_FORMAT): string {
 	return date.toLocaleTimeString(undefined, {
 		hour: "2-digit",
 		minute: "2-digit",
-		second: "2-digit",
-		hour12: false,
+		second: format.seconds ? "2-digit" : undefined,
+		hour12: format.clock === "12h",
 	});
 }
 
+/**
+ * "2026-10-19" (local), "Oct 19" or "Mon, Oct 19, 2026"
+ */
+function formatDate(date: Date, format: TimeFormat): string {
+	if (format.date === "iso") {
+		const pad = (value: number) => String(value).padStart(2, "0");
+		return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+	}
+	return date.toLocaleDateString(
+		undefined,
+		format.date === "long"
+			? { weekday: "short", month: "short", day: "numeric", year: "numeric" }
+			: { month: "short", day: "numeric" },
+	);
+}
+
+/**
+ * Compact duration: "45s", "2m14s", "1h02m"
+ */
+function formatDuration(ms: number): string {
+	const totalSeconds = Math.max(0, Math.round(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	if (hours > 0) return `${hours}h${String(minutes).padStart(2, "0")}m`;
+	if (minutes > 0) return `${minutes}m${String(seconds).padStart(2, "0")}s`;
+	return `${seconds}s`;
+}
+
+/**
+ * Compact token count: "340", "1.2k", "45k", "1.3M"
+ */
+function formatTokens(count: number): string {
+	if (count < 1000) return String(count);
+	if (count < 10_000) return `${(count / 1000).toFixed(1)}k`;
+	if (count < 1_000_000) return `${Math.round(count / 1000)}k`;
+	return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+/**
+ * "↑1.2k ↓340 R12k W2k $0.012"
+ */
+function formatUsage(usage: UsageTotals): string {
+	const parts = [`↑${formatTokens(usage.input)}`, `↓${formatTokens(usage.output)}`];
+	if (usage.cacheRead) parts.push(`R${formatTokens(usage.cacheRead)}`);
+	if (usage.cacheWrite) parts.push(`W${formatTokens(usage.cacheWrite)}`);
+	parts.push(`$${usage.cost.toFixed(3)}`);
+	return parts.join(" ");
+}
+
+function emptyUsage(): UsageTotals {
+	return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, tokens: 0, cost: 0 };
+}
+
+/**
+ * "just now", "5m03s ago"
+ */
+function formatAgo(date: Date): string {
+	const elapsed = Date.now() - date.getTime();
+	return elapsed < 5000 ? "just now" : `${formatDuration(elapsed)} ago`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function positiveNumber(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function readSettingsFile(path: string, sources: string[], warnings: string[]): Record<string, unknown> {
+	try {
+		const raw: unknown = JSON.parse(readFileSync(path, "utf8"));
+		sources.push(path);
+		return asRecord(raw);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+			warnings.push(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		return {};
+	}
+}
+
+/**
+ * Read the global and project settings files; the project file wins key by
+ * key, objects are merged one level deep. Missing or malformed keys fall back
+ * to defaults (no budget, 5 minute long-turn alert, 1 minute idle display,
+ * terminal bell, the original layout)
+ */
+function loadSettings(cwd: string): Settings {
+	const sources: string[] = [];
+	const warnings: string[] = [];
+	const global = readSettingsFile(SETTINGS_PATH, sources, warnings);
+	const project = readSettingsFile(resolve(cwd, PROJECT_SETTINGS_PATH), sources, warnings);
+
+	const raw: Record<string, unknown> = { ...global };
+	for (const [key, value] of Object.entries(project)) {
+		const base = raw[key];
+		const isObject = (item: unknown) => item !== null && typeof item === "object" && !Array.isArray(item);
+		raw[key] = isObject(base) && isObject(value) ? { ...asRecord(base), ...asRecord(value) } : value;
+	}
+
+	const budget = asRecord(raw.budget);
+	const budgetCost = positiveNumber(budget.cost);
+	const budgetTokens = positiveNumber(budget.tokens);
+	const warnAt = positiveNumber(budget.warnAt);
+	const alerts = asRecord(raw.alerts);
+	const format = asRecord(raw.format);
+	const rawTemplates = asRecord(raw.templates);
+
+	const templates = { ...DEFAULT_TEMPLATES };
+	for (const state of Object.keys(DEFAULT_TEMPLATES) as StatusState[]) {
+		const template = rawTemplates[state];
+		if (typeof template === "string") {
+			templates[state] = template;
+			for (const [, name] of template.matchAll(/\{(\w+)\}/g)) {
+				if (!SEGMENT_NAMES.includes(name)) warnings.push(`Unknown segment {${name}} in templates.${state}`);
+			}
+		}
+	}
+
+	const colors = { ...DEFAULT_COLORS };
+	for (const [name, color] of Object.entries(asRecord(raw.colors))) {
+		if (name !== "text" && !SEGMENT_NAMES.includes(name)) {
+			warnings.push(`Unknown segment "${name}" in colors`);
+		} else if (typeof color !== "string" || !STATUS_COLORS.includes(color as ThemeColor)) {
+			warnings.push(`Unknown color "${String(color)}" for ${name} (use ${STATUS_COLORS.join(", ")})`);
+		} else {
+			colors[name] = color as ThemeColor;
+		}
+	}
+
+	const terminal = ALERT_TERMINALS.find((option) => option === alerts.terminal);
+	const date = DATE_STYLES.find((style) => style === format.date);
+	return {
+		budget: budgetCost !== undefined || budgetTokens !== undefined
+			? {
+					cost: budgetCost,
+					tokens: budgetTokens,
+					warnAt: warnAt !== undefined && warnAt < 1 ? warnAt : 0.8,
+				}
+			: undefined,
+		alerts: {
+			longTurnSeconds: positiveNumber(alerts.longTurnSeconds) ?? 300,
+			idleSeconds: positiveNumber(alerts.idleSeconds) ?? 60,
+			terminal: terminal ?? "bell",
+		},
+		format: {
+			clock: format.clock === "12h" ? "12h" : DEFAULT_FORMAT.clock,
+			seconds: typeof format.seconds === "boolean" ? format.seconds : DEFAULT_FORMAT.seconds,
+			date: date ?? DEFAULT_FORMAT.date,
+		},
+		templates,
+		colors,
+		sources,
+		warnings,
+	};
+}
+
+/**
+ * Fill a template: `{name}` becomes the segment's text in its color, `[...]`
+ * disappears when a segment inside it is empty, and unknown names are kept as
+ * typed so mistakes stay visible
+ */
+function renderTemplate(template: string, segments: Segments, theme: Theme, colors: Settings["colors"]): string {
+	const textColor = colors.text ?? "dim";
+	const render = (source: string, optional: boolean): string | undefined => {
+		let output = "";
+		for (const match of source.matchAll(/\[([^\]]*)\]|\{(\w+)\}|[^[{]+|[[{]/g)) {
+			const [token, group, name] = match;
+			if (group !== undefined) {
+				output += render(group, true) ?? "";
+			} else if (name !== undefined && SEGMENT_NAMES.includes(name)) {
+				const segment = segments[name];
+				if (!segment?.text) {
+					if (optional) return undefined;
+					continue;
+				}
+				output += theme.fg(segment.color ?? colors[name] ?? "dim", segment.text);
+			} else {
+				output += theme.fg(textColor, token);
+			}
+		}
+		return output;
+	};
+	return render(template, false) ?? "";
+}
+
+/**
+ * Current branch (or short commit when detached) from .git/HEAD, looking up
+ * from cwd; worktrees and submodules point to their git dir with a .git file
+ */
+function readGitBranch(cwd: string): string | undefined {
+	for (let dir = resolve(cwd); ; dir = dirname(dir)) {
+		const gitPath = join(dir, ".git");
+		try {
+			let gitDir = gitPath;
+			if (statSync(gitPath).isFile()) {
+				const match = readFileSync(gitPath, "utf8").match(/^gitdir:\s*(.+)$/m);
+				if (!match) return undefined;
+				gitDir = resolve(dir, match[1].trim());
+			}
+			const head = readFileSync(join(gitDir, "HEAD"), "utf8").trim();
+			return head.match(/^ref: refs\/heads\/(.+)$/)?.[1] ?? head.slice(0, 7);
+		} catch {
+			// Not a repository root
+		}
+		if (dirname(dir) === dir) return undefined;
+	}
+}
+
+/**
+ * Working directory with the home directory shortened to ~
+ */
+function formatCwd(cwd: string): string {
+	const home = homedir();
+	return cwd === home || cwd.startsWith(home + "/") ? `~${cwd.slice(home.length)}` : cwd;
+}
+
+/**
+ * Ring the terminal bell or raise a desktop notification through OSC 9
+ * (iTerm2, Windows Terminal, ...) or OSC 777 (rxvt, foot, ...)
+ */
+function notifyTerminal(mode: Alerts["terminal"], message: string): void {
+	if (mode === "off" || !process.stdout.isTTY) return;
+	const text = message.replace(/[\x00-\x1f\x7f;]/g, " ");
+	if (mode === "osc9") {
+		process.stdout.write(`\x1b]9;${text}\x07`);
+	} else if (mode === "osc777") {
+		process.stdout.write(`\x1b]777;notify;pi;${text}\x07`);
+	} else {
+		process.stdout.write("\x07");
+	}
+}
+
+/**
+ * "bash×3, read×2" in order of first use
+ */
+function summarizeTools(tools: string[]): string {
+	const counts = new Map<string, number>();
+	for (const tool of tools) counts.set(tool, (counts.get(tool) || 0) + 1);
+	return [...counts].map(([name, count]) => (count > 1 ? `${name}×${count}` : name)).join(", ");
+}
+
+function describeStatus(record: TurnRecord): string {
+	if (record.status === "running") return "running";
+	if (record.status === "error") return "error";
+	if (record.status === "aborted") return "aborted";
+	return record.toolErrors > 0 ? `${record.toolErrors} tool error${record.toolErrors > 1 ? "s" : ""}` : "ok";
+}
+
+/**
+ * Markdown table of the turn history
+ */
+function formatTurnsMarkdown(history: TurnRecord[]): string {
+	const lines = [
+		`# Session turns`,
+		"",
+		`_${history.length} turns, exported ${new Date().toISOString()}_`,
+		"",
+		"| Turn | Start | End | Duration | Tools | Status | Tokens | Cost |",
+		"|-----:|-------|-----|---------:|-------|--------|-------:|-----:|",
+	];
+	for (const record of history) {
+		const end = record.endedAt !== undefined ? formatTime(new Date(record.endedAt)) : "";
+		const duration = formatDuration((record.endedAt ?? Date.now()) - record.startedAt);
+		const tools = record.tools.length ? `${record.tools.length}: ${summarizeTools(record.tools)}` : "0";
+		const tokens = record.usage ? formatTokens(record.usage.tokens) : "";
+		const cost = record.usage ? `$${record.usage.cost.toFixed(3)}` : "";
+		lines.push(
+			`| ${record.turn} | ${formatTime(new Date(record.startedAt))} | ${end} | ${duration} | ${tools} | ${describeStatus(record)} | ${tokens} | ${cost} |`,
+		);
+	}
+	return lines.join("\n") + "\n";
+}
+
+/**
+ * Write the turn history to turns-<timestamp>.md in the working directory
+ */
+async function exportTurns(cwd: string, history: TurnRecord[]): Promise<string> {
+	const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, "-");
+	const path = join(cwd, `turns-${stamp}.md`);
+	await writeFile(path, formatTurnsMarkdown(history), "utf8");
+	return path;
+}
+
+/**
+ * Scrollable timeline of the session's turns: one row per turn with a bar
+ * scaled to the longest turn. Enter expands a turn to list every tool call.
+ */
+class TurnsTimelineComponent {
+	private history: TurnRecord[];
+	private theme: Theme;
+	private tui: TUI;
+	private done: () => void;
+	private onExport: () => void;
+	private selectedIndex: number;
+	private expanded = new Set<number>();
+	private scrollOffset = 0;
+	private maxVisibleLines = 15;
+	private cachedWidth?: number;
+	private cachedLines?: string[];
+	private ticker?: ReturnType<typeof setInterval>;
+
+	constructor(history: TurnRecord[], theme: Theme, tui: TUI, done: () => void, onExport: () => void) {
+		this.history = history;
+		this.theme = theme;
+		this.tui = tui;
+		this.done = done;
+		this.onExport = onExport;
+		this.selectedIndex = Math.max(0, history.length - 1);
+		this.scrollToSelected();
+
+		// Keep a running turn's duration current while the overlay is open
+		if (history.some((record) => record.status === "running")) {
+			this.ticker = setInterval(() => {
+				this.invalidate();
+				this.tui.requestRender();
+			}, 1000);
+		}
+	}
+
+	handleInput(data: string): void {
+		if (matchesKey(data, "escape") || matchesKey(data, "ctrl+c") || matchesKey(data, "q")) {
+			this.dispose();
+			this.done();
+			return;
+		}
+
+		if (matchesKey(data, "up")) {
+			this.selectedIndex = Math.max(0, this.selectedIndex - 1);
+		} else if (matchesKey(data, "down")) {
+			this.selectedIndex = Math.min(this.history.length - 1, this.selectedIndex + 1);
+		} else if (matchesKey(data, "pageUp")) {
+			this.selectedIndex = Math.max(0, this.selectedIndex - this.maxVisibleLines);
+		} else if (matchesKey(data, "pageDown")) {
+			this.selectedIndex = Math.min(this.history.length - 1, this.selectedIndex + this.maxVisibleLines);
+		} else if (matchesKey(data, "home")) {
+			this.selectedIndex = 0;
+		} else if (matchesKey(data, "end")) {
+			this.selectedIndex = this.history.length - 1;
+		} else if (matchesKey(data, "enter")) {
+			// Show or hide the selected turn's tool calls
+			if (!this.expanded.delete(this.selectedIndex)) {
+				this.expanded.add(this.selectedIndex);
+			}
+		} else if (matchesKey(data, "e")) {
+			this.onExport();
+			return;
+		} else {
+			return;
+		}
+
+		this.scrollToSelected();
+		this.invalidate();
+		this.tui.requestRender();
+	}
+
+	/**
+	 * Scroll so the selected turn (and its expanded tool list) is visible
+	 */
+	private scrollToSelected(): void {
+		const { rowStarts, total } = this.layout();
+		const start = rowStarts[this.selectedIndex] ?? 0;
+		const end = rowStarts[this.selectedIndex + 1] ?? total;
+		if (start < this.scrollOffset) {
+			this.scrollOffset = start;
+		} else if (end > this.scrollOffset + this.maxVisibleLines) {
+			this.scrollOffset = Math.max(0, end - this.maxVisibleLines);
+		}
+	}
+
+	/**
+	 * Line index where each turn's row starts, after the two header lines
+	 */
+	private layout(): { rowStarts: number[]; total: number } {
+		const rowStarts: number[] = [];
+		let line = 2;
+		this.history.forEach((record, i) => {
+			rowStarts.push(line);
+			line += 1 + (this.expanded.has(i) ? Math.max(1, record.tools.length) : 0);
+		});
+		return { rowStarts, total: line + 2 };
+	}
+
+	private getAllLines(innerWidth: number): string[] {
+		const th = this.theme;
+		const now = Date.now();
+		const durations = this.history.map((record) => (record.endedAt ?? now) - record.startedAt);
+		const longest = Math.max(1, ...durations);
+		const barWidth = 12;
+
+		const lines: string[] = [];
+		const total = durations.reduce((sum, d) => sum + d, 0);
+		lines.push(` ${th.fg("accent", `${this.history.length} turns`)}${th.fg("dim", ` · ${formatDuration(total)} total`)}`);
+		lines.push("");
+
+		this.history.forEach((record, i) => {
+			const isSelected = i === this.selectedIndex;
+			const marker = isSelected ? th.fg("accent", "►") : " ";
+			const icon =
+				record.status === "running"
+					? th.fg("accent", "●")
+					: record.status === "error"
+						? th.fg("error", "✗")
+						: record.status === "aborted"
+							? th.fg("warning", "■")
+							: record.toolErrors > 0
+								? th.fg("warning", "✓")
+								: th.fg("success", "✓");
+
+			const filled = Math.max(1, Math.round((durations[i] / longest) * barWidth));
+			const bar = th.fg(isSelected ? "accent" : "muted", "█".repeat(filled)) + " ".repeat(barWidth - filled);
+			const turn = `#${record.turn}`.padStart(4);
+			const time = formatTime(new Date(record.startedAt));
+			const duration = formatDuration(durations[i]).padStart(6);
+			const tools = record.tools.length ? `${record.tools.length} tools` : "no tools";
+			const cost = record.usage ? ` · $${record.usage.cost.toFixed(3)}` : "";
+			const status = record.status === "done" && record.toolErrors === 0 ? "" : ` · ${describeStatus(record)}`;
+
+			const title = isSelected ? th.fg("accent", turn) : turn;
+			const row = `${marker}${title} ${th.fg("dim", time)} ${icon} ${duration} ${bar} ${tools}${cost}${status}`;
+			lines.push(truncateToWidth(row, innerWidth));
+
+			if (this.expanded.has(i)) {
+				if (record.tools.length === 0) {
+					lines.push(th.fg("dim", "        (no tool calls)"));
+				}
+				record.tools.forEach((tool, n) => {
+					lines.push(th.fg("dim", `        ${String(n + 1).padStart(2)}. ${tool}`));
+				});
+			}
+		});
+
+		lines.push("");
+		lines.push(` ${th.fg("dim", "↑↓: move • Enter: tools • e: export markdown • Esc: close")}`);
+		return lines;
+	}
+
+	render(width: number): string[] {
+		if (this.cachedLines && this.cachedWidth === width) {
+			return this.cachedLines;
+		}
+
+		const th = this.theme;
+		const innerW = Math.max(1, width - 2);
+		const allLines = this.getAllLines(innerW);
+		const visibleLines = allLines.slice(this.scrollOffset, this.scrollOffset + this.maxVisibleLines);
+		const padLine = (line: string) => truncateToWidth(line, innerW, "...", true);
+
+		const title = truncateToWidth(" Turns ", innerW);
+		const lines = [th.fg("border", "╭") + th.fg("accent", title) + th.fg("border", "─".repeat(Math.max(0, innerW - visibleWidth(title))) + "╮")];
+		for (const line of visibleLines) {
+			lines.push(th.fg("border", "│") + padLine(line) + th.fg("border", "│"));
+		}
+		for (let i = visibleLines.length; i < this.maxVisibleLines; i++) {
+			lines.push(th.fg("border", "│") + padLine("") + th.fg("border", "│"));
+		}
+		const scrollInfo = allLines.length > this.maxVisibleLines ? ` ${this.scrollOffset + 1}-${Math.min(allLines.length, this.scrollOffset + this.maxVisibleLines)}/${allLines.length} ` : "";
+		lines.push(th.fg("border", "╰" + "─".repeat(Math.max(0, innerW - scrollInfo.length))) + th.fg("dim", scrollInfo) + th.fg("border", "╯"));
+
+		this.cachedWidth = width;
+		this.cachedLines = lines;
+		return lines;
+	}
+
+	invalidate(): void {
+		this.cachedWidth = undefined;
+		this.cachedLines = undefined;
+	}
+
+	dispose(): void {
+		if (this.ticker) {
+			clearInterval(this.ticker);
+			this.ticker = undefined;
+		}
+	}
+}
+
 export default function (pi: ExtensionAPI) {
 	let turnCount = 0;
+	let sessionStartedAt = Date.now();
+	let turnStartedAt: number | undefined;
+	let completedTurns = 0;
+	let totalTurnMs = 0;
+	let ticker: ReturnType<typeof setInterval> | undefined;
+	let turnUsage: UsageTotals | undefined;
+	let sessionUsage = emptyUsage();
+	let settings = loadSettings(process.cwd());
+	let budget = settings.budget;
+	// Highest budget level already notified, so each crossing notifies once
+	let budgetNotified: "none" | "warning" | "error" = "none";
+	let history: TurnRecord[] = [];
+	// The last completed turn, shown until the next one starts
+	let lastCompleted: { turn: number; at: number; duration?: number } | undefined;
+	// When the agent last finished and started waiting for input
+	let idleSince: number | undefined;
+	let longTurnNotified = false;
+	// Reading .git/HEAD on every tick is wasteful; refresh the branch every few seconds
+	let branchCache: { cwd: string; at: number; branch?: string } | undefined;
+
+	const stopTicker = () => {
+		if (ticker) {
+			clearInterval(ticker);
+			ticker = undefined;
+		}
+	};
+
+	// Fraction of the budget used: the larger of the cost and token ratios
+	const budgetUsed = (): number => {
+		if (!budget) return 0;
+		const costRatio = budget.cost ? sessionUsage.cost / budget.cost : 0;
+		const tokenRatio = budget.tokens ? sessionUsage.tokens / budget.tokens : 0;
+		return Math.max(costRatio, tokenRatio);
+	};
+
+	const gitBranch = (cwd: string): string | undefined => {
+		if (!branchCache || branchCache.cwd !== cwd || Date.now() - branchCache.at > 5000) {
+			branchCache = { cwd, at: Date.now(), branch: readGitBranch(cwd) };
+		}
+		return branchCache.branch;
+	};
+
+	// Segments every state can use; `at` is the time the status refers to
+	const baseSegments = (ctx: ExtensionContext, at: Date): Segments => {
+		const used = budgetUsed();
+		const limit = budget?.cost ? `/$${budget.cost.toFixed(2)}` : "";
+		const branch = gitBranch(ctx.cwd);
+		return {
+			time: { text: formatTime(at, settings.format) },
+			date: { text: formatDate(at, settings.format) },
+			ago: { text: formatAgo(at) },
+			turn: { text: String(turnCount) },
+			session: { text: formatDuration(Date.now() - sessionStartedAt) },
+			avg: completedTurns > 0 ? { text: formatDuration(totalTurnMs / completedTurns) } : undefined,
+			usage: turnUsage ? { text: formatUsage(turnUsage) } : undefined,
+			// "Σ 45k $0.31/$5.00", colored against the budget
+			total:
+				turnUsage || sessionUsage.tokens > 0
+					? {
+							text: `Σ ${formatTokens(sessionUsage.tokens)} $${sessionUsage.cost.toFixed(2)}${limit}`,
+							color: used >= 1 ? "error" : budget && used >= budget.warnAt ? "warning" : undefined,
+						}
+					: undefined,
+			model: ctx.model ? { text: ctx.model.id } : undefined,
+			cwd: { text: formatCwd(ctx.cwd) },
+			git_branch: branch ? { text: branch } : undefined,
+		};
+	};
+
+	const render = (ctx: ExtensionContext, state: StatusState, segments: Segments) => {
+		ctx.ui.setStatus("status-timed", renderTemplate(settings.templates[state], segments, ctx.ui.theme, settings.colors));
+	};
+
+	const notifyBudget = (ctx: ExtensionContext) => {
+		if (!budget) return;
+		const used = budgetUsed();
+		const spent = `$${sessionUsage.cost.toFixed(2)}, ${formatTokens(sessionUsage.tokens)} tokens`;
+		if (used >= 1 && budgetNotified !== "error") {
+			budgetNotified = "error";
+			ctx.ui.notify(`Session budget exceeded (${spent})`, "error");
+		} else if (used >= budget.warnAt && budgetNotified === "none") {
+			budgetNotified = "warning";
+			ctx.ui.notify(`Session at ${Math.round(used * 100)}% of budget (${spent})`, "warning");
+		}
+	};
+
+	const showReady = (ctx: ExtensionContext) => {
+		render(ctx, "ready", baseSegments(ctx, new Date()));
+	};
+
+	// Timestamp is when the turn started; the duration keeps ticking
+	const showRunning = (ctx: ExtensionContext) => {
+		if (turnStartedAt === undefined) return;
+		const elapsed = Date.now() - turnStartedAt;
+		const long = elapsed >= settings.alerts.longTurnSeconds * 1000;
+		render(ctx, "running", {
+			...baseSegments(ctx, new Date(turnStartedAt)),
+			icon: { text: "●", color: long ? "warning" : "accent" },
+			duration: { text: formatDuration(elapsed), color: long ? "warning" : undefined },
+		});
+
+		if (long && !longTurnNotified) {
+			longTurnNotified = true;
+			ctx.ui.notify(`Turn ${turnCount} has been running for ${formatDuration(elapsed)}`, "warning");
+		}
+	};
+
+	// "09:36:42 ✓Turn 23 complete in 2m14s", plus how long the agent has been
+	// waiting for input once that passes the idle threshold
+	const showComplete = (ctx: ExtensionContext) => {
+		if (!lastCompleted) {
+			showReady(ctx);
+			return;
+		}
+		const waiting = idleSince !== undefined ? Date.now() - idleSince : 0;
+		render(ctx, "complete", {
+			...baseSegments(ctx, new Date(lastCompleted.at)),
+			icon: { text: "✓", color: "success" },
+			turn: { text: String(lastCompleted.turn) },
+			duration: lastCompleted.duration !== undefined ? { text: formatDuration(lastCompleted.duration) } : undefined,
+			idle: waiting >= settings.alerts.idleSeconds * 1000 ? { text: formatDuration(waiting) } : undefined,
+		});
+	};
+
+	// Redraw whichever state the status is in, e.g. after reloading settings
+	const refresh = (ctx: ExtensionContext) => {
+		if (turnStartedAt !== undefined) showRunning(ctx);
+		else showComplete(ctx);
+	};
+
+	// Refresh the idle display while waiting for input
+	const startIdle = (ctx: ExtensionContext, since: number) => {
+		stopTicker();
+		idleSince = since;
+		showComplete(ctx);
+		ticker = setInterval(() => showComplete(ctx), 5000);
+	};
+
+	// Rebuild turn state from the session branch: the turn count and usage come
+	// from its assistant messages, the /turns history from our custom entries
+	const restore = (ctx: ExtensionContext) => {
+		stopTicker();
+		turnStartedAt = undefined;
+		turnUsage = undefined;
+		sessionUsage = emptyUsage();
+		history = [];
+		turnCount = 0;
+		let lastMessageAt: number | undefined;
+
+		// The session clock starts with the branch's first entry (forks keep the
+		// original start), or with the session header while the branch is empty
+		const branch = ctx.sessionManager.getBranch();
+		const startedAt = Date.parse(branch[0]?.timestamp ?? ctx.sessionManager.getHeader()?.timestamp ?? "");
+		sessionStartedAt = Number.isNaN(startedAt) ? Date.now() : startedAt;
+
+		for (const entry of branch) {
+			if (entry.type === "custom" && entry.customType === TURN_ENTRY_TYPE && entry.data) {
+				history.push(entry.data as TurnRecord);
+			} else if (entry.type === "message" && entry.message.role === "assistant") {
+				turnCount++;
+				const { usage } = entry.message as AssistantMessage;
+				sessionUsage.input += usage.input;
+				sessionUsage.output += usage.output;
+				sessionUsage.cacheRead += usage.cacheRead;
+				sessionUsage.cacheWrite += usage.cacheWrite;
+				sessionUsage.tokens += usage.totalTokens;
+				sessionUsage.cost += usage.cost.total;
+				lastMessageAt = new Date(entry.timestamp).getTime();
+			}
+		}
+
+		completedTurns = history.length;
+		totalTurnMs = history.reduce((sum, record) => sum + ((record.endedAt ?? record.startedAt) - record.startedAt), 0);
+
+		// Don't repeat budget notifications the session already got
+		const used = budgetUsed();
+		budgetNotified = used >= 1 ? "error" : budget && used >= budget.warnAt ? "warning" : "none";
+
+		const lastRecord = history[history.length - 1];
+		const lastCompletedAt = lastRecord?.endedAt ?? lastMessageAt;
+		idleSince = undefined;
+		if (turnCount === 0 || lastCompletedAt === undefined) {
+			lastCompleted = undefined;
+			showReady(ctx);
+			return;
+		}
+
+		// A resumed session has been waiting since its last turn
+		const duration = lastRecord?.turn === turnCount && lastRecord.endedAt !== undefined
+			? lastRecord.endedAt - lastRecord.startedAt
+			: undefined;
+		lastCompleted = { turn: turnCount, at: lastCompletedAt, duration };
+		startIdle(ctx, lastCompletedAt);
+	};
 
 	pi.on("session_start", async (_event, ctx) => {
-		const theme = ctx.ui.theme;
-		const timestamp = theme.fg("dim", `${formatTime()} `);
-		ctx.ui.setStatus("status-timed", timestamp + theme.fg("dim", "Ready"));
+		settings = loadSettings(ctx.cwd);
+		budget = settings.budget;
+		restore(ctx);
+	});
+
+	pi.on("agent_end", async (_event, ctx) => {
+		startIdle(ctx, Date.now());
 	});
 
 	pi.on("turn_start", async (_event, ctx) => {
 		turnCount++;
-		const theme = ctx.ui.theme;
-		const timestamp = theme.fg("dim", `${formatTime()} `);
-		const spinner = theme.fg("accent", "●");
-		const text = theme.fg("dim", `Turn ${turnCount}...`);
-		ctx.ui.setStatus("status-timed", timestamp + spinner + text);
+		turnStartedAt = Date.now();
+		turnUsage = undefined;
+		idleSince = undefined;
+		longTurnNotified = false;
+		history.push({ turn: turnCount, startedAt: turnStartedAt, tools: [], toolErrors: 0, status: "running" });
+		showRunning(ctx);
+
+		stopTicker();
+		ticker = setInterval(() => showRunning(ctx), 1000);
+	});
+
+	pi.on("turn_end", async (event, ctx) => {
+		stopTicker();
+		const duration = turnStartedAt !== undefined ? Date.now() - turnStartedAt : 0;
+		turnStartedAt = undefined;
+		completedTurns++;
+		totalTurnMs += duration;
+
+		if (event.message.role === "assistant") {
+			const { usage } = event.message as AssistantMessage;
+			turnUsage = {
+				input: usage.input,
+				output: usage.output,
+				cacheRead: usage.cacheRead,
+				cacheWrite: usage.cacheWrite,
+				tokens: usage.totalTokens,
+				cost: usage.cost.total,
+			};
+			for (const key of Object.keys(sessionUsage) as (keyof UsageTotals)[]) {
+				sessionUsage[key] += turnUsage[key];
+			}
+		}
+
+		const record = history[history.length - 1];
+		if (record?.status === "running") {
+			const message = event.message.role === "assistant" ? (event.message as AssistantMessage) : undefined;
+			record.endedAt = Date.now();
+			record.tools = (message?.content ?? []).flatMap((block) => (block.type === "toolCall" ? [block.name] : []));
+			record.toolErrors = event.toolResults.filter((result) => result.isError).length;
+			record.status = message?.stopReason === "error" ? "error" : message?.stopReason === "aborted" ? "aborted" : "done";
+			record.usage = turnUsage;
+			pi.appendEntry<TurnRecord>(TURN_ENTRY_TYPE, record);
+		}
+
+		lastCompleted = { turn: turnCount, at: Date.now(), duration };
+		showComplete(ctx);
+		notifyBudget(ctx);
+
+		if (duration >= settings.alerts.longTurnSeconds * 1000) {
+			notifyTerminal(settings.alerts.terminal, `Turn ${turnCount} complete in ${formatDuration(duration)}`);
+		}
+	});
+
+	pi.on("session_switch", async (_event, ctx) => {
+		restore(ctx);
+	});
+
+	pi.on("session_fork", async (_event, ctx) => {
+		restore(ctx);
 	});
 
-	pi.on("turn_end", async (_event, ctx) => {
-		const theme = ctx.ui.theme;
-		const timestamp = theme.fg("dim", `${formatTime()} `);
-		const check = theme.fg("success", "✓");
-		const text = theme.fg("dim", `Turn ${turnCount} complete`);
-		ctx.ui.setStatus("status-timed", timestamp + check + text);
+	pi.on("session_tree", async (_event, ctx) => {
+		restore(ctx);
 	});
 
-	pi.on("session_switch", async (event, ctx) => {
-		if (event.reason === "new") {
-			turnCount = 0;
-			const theme = ctx.ui.theme;
-			const timestamp = theme.fg("dim", `${formatTime()} `);
-			ctx.ui.setStatus("status-timed", timestamp + theme.fg("dim", "Ready"));
+	pi.on("session_shutdown", async () => {
+		stopTicker();
+	});
+
+	const exportHistory = (ctx: ExtensionContext) => {
+		exportTurns(ctx.cwd, history)
+			.then((path) => ctx.ui.notify(`Exported ${history.length} turns to ${path}`, "info"))
+			.catch((error) => {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				ctx.ui.notify(`Export failed: ${errorMessage}`, "error");
+			});
+	};
+
+	pi.registerCommand("turns", {
+		description: "Show this session's turn timeline (/turns export writes it as Markdown)",
+		getArgumentCompletions: (prefix) =>
+			"export".startsWith(prefix.trim()) ? [{ value: "export", label: "export", description: "Write turns to Markdown" }] : null,
+		handler: async (args, ctx) => {
+			if (history.length === 0) {
+				ctx.ui.notify("No turns yet in this session", "info");
+				return;
+			}
+			if (args?.trim() === "export") {
+				exportHistory(ctx);
+				return;
+			}
+
+			await ctx.ui.custom<void>((tui, theme, _kb, done) => {
+				const component = new TurnsTimelineComponent(history, theme, tui, () => done(), () => exportHistory(ctx));
+				return {
+					render: (w) => component.render(w),
+					invalidate: () => component.invalidate(),
+					handleInput: (data) => {
+						component.handleInput(data);
+						tui.requestRender();
+					},
+					dispose: () => component.dispose(),
+				};
+			}, {
+				overlay: true,
+				overlayOptions: {
+					width: 80,
+					anchor: "bottom-left",
+					offsetY: -8,
+					margin: { top: 2, right: 2, bottom: 4, left: 2 },
+				},
+			});
+		},
+	});
+
+	// Each template filled with the session's values, or sample ones where it has none yet
+	const previewTemplates = (ctx: ExtensionContext): string => {
+		const base = baseSegments(ctx, new Date());
+		const sample: Segments = {
+			...base,
+			turn: { text: "23" },
+			duration: { text: "2m14s" },
+			idle: { text: "5m03s" },
+			avg: base.avg ?? { text: "41s" },
+			usage: base.usage ?? { text: "↑1.2k ↓340 R12k $0.012" },
+			total: base.total ?? { text: "Σ 45k $0.31" },
+		};
+		const icons: Record<StatusState, Segments["icon"]> = {
+			ready: undefined,
+			running: { text: "●", color: "accent" },
+			complete: { text: "✓", color: "success" },
+		};
+
+		const sources = settings.sources.length > 0 ? settings.sources.map(formatCwd).join(", ") : "defaults";
+		const lines = [`Status line (${sources})`];
+		for (const state of Object.keys(icons) as StatusState[]) {
+			const preview = renderTemplate(settings.templates[state], { ...sample, icon: icons[state] }, ctx.ui.theme, settings.colors);
+			lines.push(`${state.padEnd(9)}${preview}`);
 		}
+		lines.push(...settings.warnings);
+		return lines.join("\n");
+	};
+
+	pi.registerCommand("status-line", {
+		description: "Preview the status line templates (/status-line reload re-reads the settings)",
+		getArgumentCompletions: (prefix) =>
+			"reload".startsWith(prefix.trim())
+				? [{ value: "reload", label: "reload", description: "Re-read status-line.json" }]
+				: null,
+		handler: async (args, ctx) => {
+			const action = args?.trim() ?? "";
+			if (action === "reload") {
+				settings = loadSettings(ctx.cwd);
+				budget = settings.budget;
+				branchCache = undefined;
+				refresh(ctx);
+			} else if (action) {
+				ctx.ui.notify(`Unknown action "${action}" (use /status-line or /status-line reload)`, "error");
+				return;
+			}
+			ctx.ui.notify(previewTemplates(ctx), settings.warnings.length > 0 ? "warning" : "info");
+		},
 	});
 }